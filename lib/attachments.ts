@@ -0,0 +1,171 @@
+import { type Octokit, RequestError } from "octokit";
+import { defaultHeaders } from "./github";
+import type { Map as MapFile } from "./schemas";
+
+type Repo = { owner: string; repo: string };
+
+// Uploads files to the repo, returning the URL each file can be seen at.
+export type AttachmentHost = {
+	upload(
+		id: string,
+		fileName: string,
+		file: { data: ArrayBuffer; contentType: string },
+	): Promise<string>;
+};
+
+export function createAttachmentHost(
+	octokit: Octokit,
+	repo: Repo,
+	config: MapFile["attachments"],
+): AttachmentHost | null {
+	switch (config.mode) {
+		case "link":
+			return null;
+		case "branch":
+			return createBranchHost(octokit, repo, config.branch);
+		case "release":
+			return createReleaseHost(octokit, repo, config.release);
+	}
+}
+
+function createBranchHost(
+	octokit: Octokit,
+	repo: Repo,
+	branch: string,
+): AttachmentHost {
+	const baseRequest = { ...repo, headers: defaultHeaders };
+
+	async function ensureBranch() {
+		try {
+			await octokit.request("GET /repos/{owner}/{repo}/branches/{branch}", {
+				...baseRequest,
+				branch,
+			});
+		} catch (e) {
+			if (!(e instanceof RequestError && e.status === 404)) {
+				throw e;
+			}
+			const repoInfo = await octokit.request(
+				"GET /repos/{owner}/{repo}",
+				baseRequest,
+			);
+			const base = await octokit.request(
+				"GET /repos/{owner}/{repo}/git/ref/{ref}",
+				{ ...baseRequest, ref: `heads/${repoInfo.data.default_branch}` },
+			);
+			await octokit.request("POST /repos/{owner}/{repo}/git/refs", {
+				...baseRequest,
+				ref: `refs/heads/${branch}`,
+				sha: base.data.object.sha,
+			});
+		}
+	}
+
+	// Every file is a commit on the same branch, so they're made one at a time
+	let queue: Promise<unknown> | null = null;
+
+	async function commitFile(path: string, data: ArrayBuffer) {
+		try {
+			await octokit.request("PUT /repos/{owner}/{repo}/contents/{path}", {
+				...baseRequest,
+				path,
+				branch,
+				message: `Add ${path} from Trello`,
+				content: Buffer.from(data).toString("base64"),
+			});
+		} catch (e) {
+			// committed by an earlier run that stopped before recording it
+			if (!(e instanceof RequestError && e.status === 422)) {
+				throw e;
+			}
+		}
+	}
+
+	return {
+		async upload(id, fileName, file) {
+			const path = `${id}/${fileName}`;
+			queue ??= ensureBranch();
+			const commit = queue.then(() => commitFile(path, file.data));
+			queue = commit.catch(() => {});
+			await commit;
+
+			const encodedPath = path.split("/").map(encodeURIComponent).join("/");
+			return `https://github.com/${repo.owner}/${repo.repo}/blob/${encodeURIComponent(branch)}/${encodedPath}?raw=true`;
+		},
+	};
+}
+
+function createReleaseHost(
+	octokit: Octokit,
+	repo: Repo,
+	tag: string,
+): AttachmentHost {
+	const baseRequest = { ...repo, headers: defaultHeaders };
+
+	async function ensureRelease() {
+		try {
+			const res = await octokit.request(
+				"GET /repos/{owner}/{repo}/releases/tags/{tag}",
+				{ ...baseRequest, tag },
+			);
+			return res.data.id;
+		} catch (e) {
+			if (!(e instanceof RequestError && e.status === 404)) {
+				throw e;
+			}
+			const res = await octokit.request("POST /repos/{owner}/{repo}/releases", {
+				...baseRequest,
+				tag_name: tag,
+				name: "Trello attachments",
+				body: "Files that were attached to Trello cards.",
+			});
+			return res.data.id;
+		}
+	}
+
+	let releaseId: Promise<number> | null = null;
+
+	return {
+		async upload(id, fileName, file) {
+			releaseId ??= ensureRelease();
+			const release_id = await releaseId;
+			// asset names are unique within a release
+			const name = `${id}-${fileName}`;
+			try {
+				const res = await octokit.request(
+					"POST /repos/{owner}/{repo}/releases/{release_id}/assets{?name,label}",
+					{
+						...baseRequest,
+						baseUrl: "https://uploads.github.com",
+						release_id,
+						name,
+						// the endpoint is typed for text, but any body is sent as-is
+						data: Buffer.from(file.data) as unknown as string,
+						headers: {
+							...defaultHeaders,
+							"content-type": file.contentType,
+						},
+					},
+				);
+				return res.data.browser_download_url;
+			} catch (e) {
+				// uploaded by an earlier run that stopped before recording it
+				if (!(e instanceof RequestError && e.status === 422)) {
+					throw e;
+				}
+				const assets = await octokit.paginate(
+					"GET /repos/{owner}/{repo}/releases/{release_id}/assets",
+					{ ...baseRequest, release_id, per_page: 100 },
+				);
+				// GitHub replaces some characters in asset names
+				const asset = assets.find(
+					(asset) => asset.name === name || asset.name.startsWith(`${id}-`),
+				);
+				if (!asset) {
+					throw e;
+				}
+				return asset.browser_download_url;
+			}
+		},
+	};
+}
@@ -0,0 +1,163 @@
+import { existsSync } from "node:fs";
+import * as p from "@clack/prompts";
+import chalk from "chalk";
+import terminalLink from "terminal-link";
+import { type OutputFormat, ui } from "./output";
+
+export function onCancel(): never {
+	ui.cancel("Operation cancelled.");
+	process.exit(0);
+}
+
+export function fail(message?: string, exitCode = 1): never {
+	ui.failed(message);
+	process.exit(exitCode);
+}
+
+// With `--yes` every confirmation is answered yes. With `--non-interactive` nothing is ever
+// asked: anything that would need an answer fails instead, so scripts never hang on a prompt.
+// JSON output is read by a program, so it never asks either.
+let interactivity = { yes: false, nonInteractive: false };
+
+export function setInteractivity(opts: {
+	yes?: boolean;
+	nonInteractive?: boolean;
+	format?: OutputFormat;
+}) {
+	interactivity = {
+		yes: opts.yes ?? false,
+		nonInteractive:
+			(opts.nonInteractive || opts.yes || opts.format === "json") ?? false,
+	};
+}
+
+// Fail if no prompts may be shown, naming what was missing instead.
+export function requireInteractive(missing: string) {
+	if (interactivity.nonInteractive) {
+		fail(`Missing ${missing}, and prompts are disabled.`);
+	}
+}
+
+// Ask a yes/no question, cancelling the command on "no".
+export async function confirm(message: string) {
+	if (interactivity.yes) {
+		return;
+	}
+	if (interactivity.nonInteractive) {
+		fail(`${message} Pass ${chalk.green("--yes")} to continue without asking.`);
+	}
+	const conf = await p.confirm({ message });
+	if (p.isCancel(conf) || !conf) {
+		onCancel();
+	}
+}
+
+export const listConjunction = new Intl.ListFormat("en", {
+	style: "long",
+	type: "conjunction",
+});
+
+export function intro() {
+	ui.intro(`${chalk.bold.cyanBright("Trello To GitHub")} v0.1.0`);
+}
+
+// Use the token from `--github-token` or `$PAT`, or ask for one.
+export async function askGithubToken(token?: string): Promise<string> {
+	if (token && typeof token === "string") {
+		return token;
+	}
+	if (typeof Bun.env.PAT === "string" && Bun.env.PAT.length > 1) {
+		return Bun.env.PAT;
+	}
+	requireInteractive(
+		`a GitHub token (${chalk.green("--github-token")} or ${chalk.green("$PAT")})`,
+	);
+
+	const val = await p.password({
+		message: `Provide a ${chalk.underline.blue(terminalLink("Personal Access Token", "https://github.com/settings/tokens"))} with at least the \`${chalk.green("repo")}\` scope.\n${chalk.dim("Issues will be owned by the user this token belongs to.")}`,
+		validate: (val) => {
+			if (!val) {
+				return "Please enter a token.";
+			}
+		},
+	});
+	if (p.isCancel(val)) {
+		onCancel();
+	}
+	return val;
+}
+
+export type TrelloSource = { type: "url" | "file"; path: string };
+
+// Use the board from `--trello-export` or `--trello-url`, or ask for one.
+export async function askTrelloSource(opts: {
+	trelloExport?: string;
+	trelloUrl?: string;
+}): Promise<TrelloSource> {
+	if (opts.trelloExport) {
+		return { type: "file", path: opts.trelloExport };
+	} else if (opts.trelloUrl) {
+		return { type: "url", path: opts.trelloUrl };
+	}
+	requireInteractive(
+		`a Trello board (${chalk.green("--trello-export")} or ${chalk.green("--trello-url")})`,
+	);
+
+	const type = await p.select({
+		message: "How would you like to provide your Trello board?",
+		options: [
+			{
+				label: "via URL",
+				value: "url" as const,
+				hint: "https://trello.com/b/[board-id]",
+			},
+			{
+				label: "via downloaded file",
+				value: "file" as const,
+				hint: "./export.json",
+			},
+		],
+	});
+	if (p.isCancel(type)) {
+		onCancel();
+	}
+
+	let path: string | symbol;
+	if (type === "url") {
+		path = await p.text({
+			message: "Please enter the URL of your Trello board.",
+			placeholder: "https://trello.com/b/[board-id]",
+			validate: (val) => {
+				const url = URL.parse(val);
+				if (!val) {
+					return "Please enter a URL.";
+				} else if (!url) {
+					return "Please enter a valid URL.";
+				} else if (url.hostname !== "trello.com") {
+					return "Please enter a Trello link.";
+				} else if (!/^\/b\/[A-Za-z0-9]+/.test(url.pathname)) {
+					return "Please enter a Trello board link.";
+				}
+			},
+		});
+	} else {
+		path = await p.text({
+			message: "Please enter the path to your Trello export file.",
+			placeholder: "./export.json",
+			validate: (val) => {
+				if (!val) {
+					return "Please enter a path.";
+				} else if (!val.endsWith(".json")) {
+					return `The ${chalk.green("export.json")} file (${chalk.red(val)}) must be a JSON file.`;
+				} else if (!existsSync(val)) {
+					return `The path ${chalk.red(val)} does not exist.`;
+				}
+			},
+		});
+	}
+	if (p.isCancel(path)) {
+		onCancel();
+	}
+
+	return { type, path };
+}
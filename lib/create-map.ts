@@ -0,0 +1,294 @@
+import { existsSync } from "node:fs";
+import * as p from "@clack/prompts";
+import chalk from "chalk";
+import { RequestError } from "octokit";
+import TOML from "smol-toml";
+import invariant from "tiny-invariant";
+import z from "zod";
+import {
+	askGithubToken,
+	askTrelloSource,
+	confirm,
+	fail,
+	intro,
+	onCancel,
+	requireInteractive,
+	setInteractivity,
+} from "./cli";
+import { createOctokit, defaultHeaders, getProjectInfo } from "./github";
+import { trelloColors } from "./label";
+import { exactLabelPattern, type Map as MapFile, MapFormat } from "./schemas";
+import { getTrelloCredentials, getTrelloData } from "./trello";
+
+export type CreateMapOptions = {
+	githubToken?: string;
+	trelloExport?: string;
+	trelloUrl?: string;
+	trelloKey?: string;
+	trelloToken?: string;
+	// `owner/name` of the target repository
+	repo?: string;
+	project?: number;
+	output: string;
+	force?: boolean;
+	yes?: boolean;
+	nonInteractive?: boolean;
+};
+
+// Names on either side are matched loosely, as they're often typed by hand.
+function sameName(a: string, b: string): boolean {
+	return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+// Render a `[[key]]` entry for each item.
+function tomlArray(key: string, items: Record<string, unknown>[]): string {
+	return items
+		.map((item) => `[[${key}]]\n${TOML.stringify(item).trim()}`)
+		.join("\n\n");
+}
+
+// Like `tomlArray()`, but the entries are commented out.
+function tomlCommentedArray(
+	key: string,
+	items: Record<string, unknown>[],
+): string {
+	return tomlArray(key, items)
+		.split("\n")
+		.map((line) => (line ? `# ${line}` : line))
+		.join("\n");
+}
+
+export async function createMap(opts: CreateMapOptions) {
+	setInteractivity(opts);
+	intro();
+
+	const token = await askGithubToken(opts.githubToken);
+	const trelloSource = await askTrelloSource(opts);
+
+	let repoName = opts.repo;
+	if (!repoName) {
+		requireInteractive(`the repository (${chalk.green("--repo")})`);
+		const val = await p.text({
+			message: "Which repository should the issues be created in?",
+			placeholder: "owner/repo",
+			validate: (val) => {
+				if (!/^[\w.-]+\/[\w.-]+$/.test(val)) {
+					return "Please enter a repository as `owner/repo`.";
+				}
+			},
+		});
+		if (p.isCancel(val)) {
+			onCancel();
+		}
+		repoName = val;
+	}
+	const [owner, repo] = repoName.split("/");
+	if (!owner || !repo) {
+		fail(`The repository ${chalk.red(repoName)} must be given as owner/repo.`);
+	}
+
+	if (existsSync(opts.output) && !opts.force) {
+		await confirm(`${chalk.green(opts.output)} already exists. Overwrite it?`);
+	}
+
+	const getTrello = await getTrelloData(
+		trelloSource,
+		getTrelloCredentials(opts),
+	);
+	if (!getTrello.result.success) {
+		p.log.warn(`Failed to parse export file (${getTrello.source}):`);
+		p.log.error(z.prettifyError(getTrello.result.error));
+		fail();
+	}
+	const trello = getTrello.result.data;
+
+	const octokit = createOctokit(token);
+	const baseRequest = { owner, repo, headers: defaultHeaders };
+
+	const spin = p.spinner();
+	spin.start(`Reading ${chalk.blue(repoName)}`);
+
+	const githubOwner = await octokit.request("GET /users/{username}", {
+		username: owner,
+		headers: defaultHeaders,
+	});
+	const repoConfig: MapFile["repo"] = {
+		owner:
+			githubOwner.data.type === "Organization"
+				? { type: "organization", login: owner }
+				: owner,
+		repo,
+	};
+
+	const githubLabels = await octokit.paginate(
+		"GET /repos/{owner}/{repo}/labels",
+		{ ...baseRequest, per_page: 100 },
+	);
+	const githubMilestones = await octokit.paginate(
+		"GET /repos/{owner}/{repo}/milestones",
+		{ ...baseRequest, per_page: 100 },
+	);
+
+	let collaborators: string[] = [];
+	try {
+		const res = await octokit.paginate(
+			"GET /repos/{owner}/{repo}/collaborators",
+			{ ...baseRequest, per_page: 100 },
+		);
+		collaborators = res.map((user) => user.login);
+	} catch (e) {
+		if (e instanceof RequestError && (e.status === 403 || e.status === 404)) {
+			// listing collaborators needs push access; users will be left for the user to fill in
+			p.log.warn(
+				`Could not list the collaborators of ${chalk.blue(repoName)}, so no users will be mapped.`,
+			);
+		} else {
+			throw e;
+		}
+	}
+
+	const projectInfo = await getProjectInfo(octokit, {
+		repo: repoConfig,
+		project: opts.project,
+	});
+
+	spin.stop(
+		`Read ${chalk.blue(repoName)}${projectInfo ? ` and project ${chalk.bold(projectInfo.projectName)}` : ""}`,
+	);
+
+	const users = [];
+	const unmatchedUsers = [];
+	for (const member of trello.members) {
+		const login = collaborators.find((login) =>
+			sameName(login, member.username),
+		);
+		if (login) {
+			users.push({ trello: member.username, github: login });
+		} else {
+			unmatchedUsers.push({ trello: member.username, github: "" });
+		}
+	}
+
+	const lists = [];
+	for (const list of trello.lists.filter((list) => !list.closed)) {
+		const entry: Record<string, unknown> = { list: list.name };
+
+		if (projectInfo) {
+			const option = projectInfo.statusFieldOptions.find((option) =>
+				sameName(option.name, list.name),
+			);
+			entry.status = option ? option.name : list.name;
+			if (!option) {
+				entry.create = true;
+			}
+		}
+
+		const milestone = githubMilestones.find((milestone) =>
+			sameName(milestone.title, list.name),
+		);
+		if (milestone) {
+			entry.milestone = milestone.title;
+		}
+
+		// without a project or milestone, there's nothing to map the list to
+		if (Object.keys(entry).length > 1) {
+			lists.push(entry);
+		}
+	}
+
+	const labels = [];
+	const unmatchableLabels = [];
+	const seenLabels = new Set<string>();
+	for (const label of trello.labels) {
+		// labels without a name can only be told apart by their color, and become
+		// a label named after it
+		const matcher = label.name
+			? { trello: exactLabelPattern(label.name) }
+			: { trello: "/^$/", trello_color: label.color };
+		const name = label.name || label.color;
+		if (!name) {
+			unmatchableLabels.push(label);
+			continue;
+		}
+		const key = label.name ? `name:${label.name}` : `color:${label.color}`;
+		if (seenLabels.has(key)) {
+			continue;
+		}
+		seenLabels.add(key);
+
+		const githubLabel = githubLabels.find((ghLabel) =>
+			sameName(ghLabel.name, name),
+		);
+		const githubName = githubLabel?.name ?? name;
+		// `$1` and `$&` would be replaced in the GitHub name, but `$&` is the whole Trello name
+		const github = /\$(\d|&)/.test(githubName) ? "$&" : githubName;
+		if (githubLabel) {
+			labels.push({ ...matcher, github });
+			continue;
+		}
+		const color = trelloColors[label.color];
+		labels.push({
+			...matcher,
+			github,
+			create: true,
+			...(color && { color }),
+		});
+	}
+
+	const sections = [
+		`# Generated by \`t2gh create-map\` from the Trello board "${trello.name}".\n# Please review every entry before running the migration.`,
+		TOML.stringify(
+			projectInfo
+				? { project: opts.project, repo: repoConfig }
+				: { repo: repoConfig },
+		).trim(),
+	];
+	if (users.length > 0) {
+		sections.push(tomlArray("users", users));
+	}
+	if (unmatchedUsers.length > 0) {
+		sections.push(
+			`# These Trello members could not be matched to a collaborator of ${repoName}.\n${tomlCommentedArray("users", unmatchedUsers)}`,
+		);
+	}
+	if (lists.length > 0) {
+		sections.push(
+			`# Map Trello lists to GitHub Project statuses and milestones\n${tomlArray("lists", lists)}`,
+		);
+	}
+	if (labels.length > 0) {
+		sections.push(
+			`# Map Trello labels to GitHub labels\n${tomlArray("labels", labels)}`,
+		);
+	}
+	const content = `${sections.join("\n\n\n")}\n`;
+
+	const check = MapFormat.safeParse(TOML.parse(content));
+	invariant(
+		check.success,
+		() =>
+			`the generated map file should be valid:\n${check.error && z.prettifyError(check.error)}`,
+	);
+
+	await Bun.write(opts.output, content);
+
+	const created = (entries: Record<string, unknown>[]) =>
+		entries.filter((entry) => entry.create).length;
+	p.note(
+		[
+			`${chalk.bold(labels.length)} labels (${chalk.yellow(created(labels))} to create)`,
+			`${chalk.bold(lists.length)} lists (${chalk.yellow(created(lists))} statuses to create)`,
+			`${chalk.bold(users.length)} users (${chalk.yellow(unmatchedUsers.length)} left to fill in)`,
+		].join("\n"),
+		`Wrote ${chalk.green(opts.output)}:`,
+	);
+	if (unmatchableLabels.length > 0) {
+		p.log.warn(
+			`${unmatchableLabels.length} Trello labels have neither a name nor a color and were left out.`,
+		);
+	}
+
+	p.outro(
+		`Next, run ${chalk.green(`t2gh --map ${opts.output} --dry-run`)} to preview the migration.`,
+	);
+}
@@ -0,0 +1,249 @@
+import chalk from "chalk";
+import { Octokit } from "octokit";
+import invariant from "tiny-invariant";
+import { ui } from "./output";
+import type { FieldColor, Map as MapFile } from "./schemas";
+
+export const defaultHeaders = { "X-GitHub-Api-Version": "2022-11-28" };
+
+// How many times a request is retried after hitting a rate limit or a server error.
+const MAX_RETRIES = 5;
+
+// Every REST and GraphQL request goes through the throttling and retry plugins that
+// `octokit` ships with. They queue writes, wait for `retry-after` / `x-ratelimit-reset`
+// when rate limited, and back off on 5xx responses; these options let them keep retrying.
+export function createOctokit(auth: string): Octokit {
+	const onLimit =
+		(kind: string) =>
+		(
+			retryAfter: number,
+			options: { method: string; url: string },
+			_: unknown,
+			retryCount: number,
+		) => {
+			if (retryCount >= MAX_RETRIES) {
+				return false;
+			}
+			ui.log.warn(
+				`Hit the ${kind} rate limit on ${chalk.dim(`${options.method} ${options.url}`)}, retrying in ${chalk.yellow(`${retryAfter}s`)} (attempt ${retryCount + 1}/${MAX_RETRIES})`,
+			);
+			return true;
+		};
+
+	return new Octokit({
+		auth,
+		throttle: {
+			onRateLimit: onLimit("primary"),
+			onSecondaryRateLimit: onLimit("secondary"),
+		},
+		retry: { retries: MAX_RETRIES },
+		// keep Octokit's own logging from breaking up the prompts
+		log: {
+			debug: () => {},
+			info: () => {},
+			warn: () => {},
+			error: (message: string) => ui.log.error(message),
+		},
+	});
+}
+
+export type StatusFieldInfo = {
+	name: string;
+	id: string;
+	options: { id: string; name: string; color: string; description: string }[];
+};
+
+// Any field of a project, e.g. "Status", "Start date" or "Iteration".
+export type ProjectFieldInfo = {
+	id: string;
+	name: string;
+	// One of: ASSIGNEES, DATE, ITERATION, LABELS, LINKED_PULL_REQUESTS, MILESTONE, NUMBER,
+	// REPOSITORY, REVIEWERS, SINGLE_SELECT, TEXT, TITLE, TRACKS, TRACKED_BY, PARENT_ISSUE, SUB_ISSUES_PROGRESS
+	dataType: string;
+	options?: StatusFieldInfo["options"];
+	// The iterations of an iteration field, the completed ones included
+	iterations?: IterationInfo[];
+};
+
+export type IterationInfo = {
+	id: string;
+	title: string;
+	// The first day of the iteration (YYYY-MM-DD), and how many days it lasts
+	startDate: string;
+	duration: number;
+};
+
+// The value of a project item's field, as accepted by `updateProjectV2ItemFieldValue`.
+export type FieldValue =
+	| { date: string }
+	| { text: string }
+	| { number: number }
+	| { singleSelectOptionId: string }
+	| { iterationId: string };
+
+export type ProjectInfo = NonNullable<
+	Awaited<ReturnType<typeof getProjectInfo>>
+>;
+
+// The login of the user or organization that owns the repo (and project).
+export function ownerLogin(owner: MapFile["repo"]["owner"]): string {
+	return typeof owner === "string" ? owner : owner.login;
+}
+
+// The owner and name of a repository, as used in REST requests.
+export function repoRef(repo: MapFile["repo"]): {
+	owner: string;
+	repo: string;
+} {
+	return { owner: ownerLogin(repo.owner), repo: repo.repo };
+}
+
+// `owner/name` of a repository
+export function repoFullName(repo: MapFile["repo"]): string {
+	return `${ownerLogin(repo.owner)}/${repo.repo}`;
+}
+
+// The REST parameters for a repository, by `owner/name`
+export function repoRequest(repo: string) {
+	const [owner = "", name = ""] = repo.split("/");
+	return { owner, repo: name, headers: defaultHeaders };
+}
+
+// Whether the owner should be queried as a `user` or an `organization` in GraphQL.
+export function ownerType(
+	owner: MapFile["repo"]["owner"],
+): "user" | "organization" {
+	return typeof owner === "object" && owner.type === "organization"
+		? "organization"
+		: "user";
+}
+
+export async function getProjectInfo(
+	octokit: Octokit,
+	map: Pick<MapFile, "repo" | "project">,
+) {
+	if (!map.project) {
+		return null;
+	}
+	const queryTarget = ownerType(map.repo.owner);
+	const queryLogin = ownerLogin(map.repo.owner);
+	const response = await octokit.graphql(`
+		query {
+			${queryTarget}(login: "${queryLogin}") {
+				projectV2(number: ${map.project}) {
+					id
+					title
+					fields(first: 100) {
+						nodes {
+							... on ProjectV2FieldCommon {
+								id
+								name
+								dataType
+							}
+							... on ProjectV2SingleSelectField {
+								options {
+									id
+									name
+									color
+									description
+								}
+							}
+							... on ProjectV2IterationField {
+								configuration {
+									iterations {
+										id
+										title
+										startDate
+										duration
+									}
+									completedIterations {
+										id
+										title
+										startDate
+										duration
+									}
+								}
+							}
+						}
+					}
+				}
+			}
+		}
+  `);
+
+	// Color is one of: BLUE, GRAY, GREEN, ORANGE, PINK, PURPLE, RED, YELLOW
+
+	// biome-ignore lint/suspicious/noExplicitAny: The GraphQL API is not typed, but accessing results mirrors the query.
+	const res = response as any;
+
+	const statusField: StatusFieldInfo = res[
+		queryTarget
+	].projectV2.fields.nodes.find(
+		(field: Pick<StatusFieldInfo, "name">) => field.name === "Status",
+	);
+
+	invariant(
+		statusField,
+		"every Project should have a Status field (probably? If this is violated, please file an issue.)",
+	);
+
+	const fields: ProjectFieldInfo[] = res[
+		queryTarget
+	].projectV2.fields.nodes.map(
+		// biome-ignore lint/suspicious/noExplicitAny: The GraphQL API is not typed
+		({ configuration, ...field }: any) =>
+			configuration
+				? {
+						...field,
+						iterations: [
+							...configuration.iterations,
+							...configuration.completedIterations,
+						],
+					}
+				: field,
+	);
+
+	return {
+		projectId: res[queryTarget].projectV2.id as string,
+		projectName: res[queryTarget].projectV2.title as string,
+		statusFieldId: statusField.id,
+		statusFieldOptions: statusField.options,
+		fields,
+	};
+}
+
+// Add options to the project's Status field. GitHub replaces the whole list of options, so the
+// existing ones are sent along too. They come back with new IDs, clearing the Status of every item
+// that had one of them.
+export async function addStatusOptions(
+	octokit: Octokit,
+	projectInfo: ProjectInfo,
+	newOptions: { name: string; color: FieldColor }[],
+) {
+	const options = [
+		...projectInfo.statusFieldOptions.map((option) => ({
+			name: option.name,
+			color: option.color,
+			description: option.description,
+		})),
+		...newOptions.map((option) => ({
+			name: option.name,
+			color: option.color,
+			description: "",
+		})),
+	];
+
+	await octokit.graphql(
+		`
+		mutation($fieldId: ID!, $options: [ProjectV2SingleSelectFieldOptionInput!]) {
+			updateProjectV2Field(input: {fieldId: $fieldId, singleSelectOptions: $options}) {
+				projectV2Field {
+					... on ProjectV2SingleSelectField {
+						id
+					}
+				}
+			}
+		}`,
+		{ fieldId: projectInfo.statusFieldId, options },
+	);
+}
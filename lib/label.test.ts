@@ -0,0 +1,94 @@
+import { describe, expect, test } from "bun:test";
+import { applyLabelRule } from "./label";
+import { exactLabelPattern, labelPattern, MapFormat } from "./schemas";
+
+const green = (name: string) => ({ name, color: "green" });
+
+describe("labelPattern", () => {
+	test("matches names with `*` as a wildcard", () => {
+		const pattern = labelPattern("priority: *");
+		expect(pattern.test("priority: high")).toBe(true);
+		expect(pattern.test("priority: ")).toBe(true);
+		expect(pattern.test("a priority: high")).toBe(false);
+	});
+
+	test("escapes everything but `*`", () => {
+		const pattern = labelPattern("v1.0 (beta)");
+		expect(pattern.test("v1.0 (beta)")).toBe(true);
+		expect(pattern.test("v1x0 (beta)")).toBe(false);
+	});
+
+	test("compiles `/regular expressions/` with their flags", () => {
+		const pattern = labelPattern("/^p(\\d)$/i");
+		expect(pattern.test("P1")).toBe(true);
+		expect(pattern.test("P12")).toBe(false);
+	});
+});
+
+describe("exactLabelPattern", () => {
+	test("keeps plain names as they are", () => {
+		expect(exactLabelPattern("v1.0 (beta)")).toBe("v1.0 (beta)");
+	});
+
+	test("turns names that read as patterns into exact regular expressions", () => {
+		for (const name of ["priority: *", "/todo/", "/a/b/i"]) {
+			const pattern = labelPattern(exactLabelPattern(name));
+			expect(pattern.test(name)).toBe(true);
+			expect(pattern.test(`${name}x`)).toBe(false);
+		}
+		expect(labelPattern(exactLabelPattern("*")).test("bug")).toBe(false);
+	});
+});
+
+describe("applyLabelRule", () => {
+	test("substitutes the groups of a glob", () => {
+		const rule = {
+			trello: "priority: *",
+			github: "priority-$1",
+			create: false,
+		};
+		expect(applyLabelRule(rule, green("priority: high"))).toBe("priority-high");
+		expect(applyLabelRule(rule, green("bug"))).toBeNull();
+	});
+
+	test("substitutes the groups of a regular expression", () => {
+		const rule = {
+			trello: "/^(\\w+)-(\\d+)$/",
+			github: "$2/$1",
+			create: false,
+		};
+		expect(applyLabelRule(rule, green("sprint-4"))).toBe("4/sprint");
+	});
+
+	test("substitutes the whole name for `$&`", () => {
+		const rule = { trello: "*", github: "trello: $&", create: false };
+		expect(applyLabelRule(rule, green("bug"))).toBe("trello: bug");
+	});
+
+	test("only matches labels of the rule's color", () => {
+		const rule = { trello_color: "red", github: "urgent", create: false };
+		expect(applyLabelRule(rule, { name: "", color: "red" })).toBe("urgent");
+		expect(applyLabelRule(rule, green(""))).toBeNull();
+	});
+});
+
+describe("label rules in the map file", () => {
+	const parseRule = (trello: string) =>
+		MapFormat.safeParse({
+			repo: { owner: "octocat", repo: "hello-world" },
+			labels: [{ trello, github: "priority-$1" }],
+		});
+
+	test("accept regular expressions", () => {
+		expect(parseRule("/^priority (\\w+)$/i").success).toBe(true);
+	});
+
+	test("reject invalid regular expressions", () => {
+		expect(parseRule("/(/").success).toBe(false);
+	});
+
+	test("reject the g and y flags", () => {
+		expect(parseRule("/^priority (\\w+)$/g").success).toBe(false);
+		expect(parseRule("/^priority (\\w+)$/y").success).toBe(false);
+	});
+});
@@ -1,11 +1,13 @@
 import chalk, { type ChalkInstance } from "chalk";
 import invariant from "tiny-invariant";
+import { type FieldColor, labelPattern, type Map as MapFile } from "./schemas";
 
 // A label that doesn't exist in the map file.
 // It won't be transferred to GitHub.
 export type SkippedLabel = {
 	type: "skipped";
 	trello: {
+		id: string;
 		name: string;
 		color: string;
 	};
@@ -15,6 +17,7 @@ export type SkippedLabel = {
 export type ToCreateLabel = {
 	type: "toCreate";
 	trello: {
+		id: string;
 		name: string;
 		color: string;
 	};
@@ -28,6 +31,7 @@ export type ToCreateLabel = {
 export type MissingLabel = {
 	type: "missing";
 	trello: {
+		id: string;
 		name: string;
 		color: string;
 	};
@@ -38,6 +42,7 @@ export type MissingLabel = {
 export type MappedLabel = {
 	type: "mapped";
 	trello: {
+		id: string;
 		name: string;
 		color: string;
 	};
@@ -85,40 +90,74 @@ export type TrelloLabel =
 // Labels that are going to GitHub
 export type GithubLabel = ToCreateLabel | MappedLabel | ListMappedLabel;
 
+type LabelRule = MapFile["labels"]["rules"][number];
+
+// Replace `$1`, `$2`, ... in a GitHub label name with the groups of `match`, and `$&` with all of it.
+export function substituteLabelName(
+	github: string | number,
+	match: string[],
+): string | number {
+	if (typeof github === "number") {
+		return github;
+	}
+	return github.replace(/\$(\d|&)/g, (_, group: string) =>
+		group === "&" ? (match[0] ?? "") : (match[Number(group)] ?? ""),
+	);
+}
+
+// The GitHub label a rule maps a Trello label to, or null if the rule doesn't match it.
+export function applyLabelRule(
+	rule: LabelRule,
+	trelloLabel: { name: string; color: string },
+): string | number | null {
+	if (rule.trello_color && rule.trello_color !== trelloLabel.color) {
+		return null;
+	}
+	if (rule.trello === undefined) {
+		return substituteLabelName(rule.github, [trelloLabel.name]);
+	}
+	const match = trelloLabel.name.match(labelPattern(rule.trello));
+	return match ? substituteLabelName(rule.github, [...match]) : null;
+}
+
 // A map of Trello color names to their hex values.
-const colorMap: Record<string, ChalkInstance> = {
-	lime_light: chalk.bgHex("#D3F1A7"),
-	lime: chalk.bgHex("#94C748"),
-	lime_dark: chalk.bgHex("#5B7F24"),
-	red_light: chalk.bgHex("#FFD5D2"),
-	red: chalk.bgHex("#F87168"),
-	red_dark: chalk.bgHex("#C9372C"),
-	orange_light: chalk.bgHex("#FEDEC8"),
-	orange: chalk.bgHex("#FEA362"),
-	orange_dark: chalk.bgHex("#C25100"),
-	yellow_light: chalk.bgHex("#F8E6A0"),
-	yellow: chalk.bgHex("#F5CD47"),
-	yellow_dark: chalk.bgHex("#946F00"),
-	green_light: chalk.bgHex("#BAF3DB"),
-	green: chalk.bgHex("#4BCE97"),
-	green_dark: chalk.bgHex("#1F845A"),
-	sky_light: chalk.bgHex("#C6EDFB"),
-	sky: chalk.bgHex("#6CC3E0"),
-	sky_dark: chalk.bgHex("#227D9B"),
-	blue_light: chalk.bgHex("#CCE0FF"),
-	blue: chalk.bgHex("#579DFF"),
-	blue_dark: chalk.bgHex("#0C66E4"),
-	purple_light: chalk.bgHex("#DFD8FD"),
-	purple: chalk.bgHex("#9F8FEF"),
-	purple_dark: chalk.bgHex("#6E5DC6"),
-	pink_light: chalk.bgHex("#FDD0EC"),
-	pink: chalk.bgHex("#E774BB"),
-	pink_dark: chalk.bgHex("#AE4787"),
-	black_light: chalk.bgHex("#DCDFE4"),
-	black: chalk.bgHex("#8590A2"),
-	black_dark: chalk.bgHex("#626F86"),
+export const trelloColors: Record<string, string> = {
+	lime_light: "#D3F1A7",
+	lime: "#94C748",
+	lime_dark: "#5B7F24",
+	red_light: "#FFD5D2",
+	red: "#F87168",
+	red_dark: "#C9372C",
+	orange_light: "#FEDEC8",
+	orange: "#FEA362",
+	orange_dark: "#C25100",
+	yellow_light: "#F8E6A0",
+	yellow: "#F5CD47",
+	yellow_dark: "#946F00",
+	green_light: "#BAF3DB",
+	green: "#4BCE97",
+	green_dark: "#1F845A",
+	sky_light: "#C6EDFB",
+	sky: "#6CC3E0",
+	sky_dark: "#227D9B",
+	blue_light: "#CCE0FF",
+	blue: "#579DFF",
+	blue_dark: "#0C66E4",
+	purple_light: "#DFD8FD",
+	purple: "#9F8FEF",
+	purple_dark: "#6E5DC6",
+	pink_light: "#FDD0EC",
+	pink: "#E774BB",
+	pink_dark: "#AE4787",
+	black_light: "#DCDFE4",
+	black: "#8590A2",
+	black_dark: "#626F86",
 };
 
+const colorMap: Record<string, ChalkInstance> = Object.fromEntries(
+	Object.entries(trelloColors).map(([name, hex]) => [name, chalk.bgHex(hex)]),
+);
+
 export function renderTrelloLabel(label: TrelloLabel): string {
 	const makeColor = colorMap[label.trello.color];
 	invariant(makeColor, () => {
@@ -144,7 +183,7 @@ export function renderGithubLabel(label: GithubLabel): string {
 	return makeColor(` ${label.github.name} `);
 }
 
-const fieldColorMap: Record<string, string> = {
+const fieldColorMap: Record<FieldColor, string> = {
 	BLUE: "#0969da",
 	GRAY: "#59636e",
 	GREEN: "#1a7f37",
@@ -154,7 +193,7 @@ const fieldColorMap: Record<string, string> = {
 	RED: "#d1242f",
 	YELLOW: "#9a6700",
 };
-// const fieldColorMap: Record<string, string> = {
+// const fieldColorMap: Record<FieldColor, string> = {
 // 	BLUE: "#ddf4ff",
 // 	GRAY: "#f6f8fa",
 // 	GREEN: "#dafbe1",
@@ -166,10 +205,11 @@ const fieldColorMap: Record<string, string> = {
 // };
 
 export function renderGithubFieldOption(option: {
-	id: string;
 	name: string;
 	color: string;
 }): string {
-	const makeColor = chalk.bold.hex(fieldColorMap[option.color]);
+	const makeColor = chalk.bold.hex(
+		fieldColorMap[option.color as FieldColor] ?? fieldColorMap.GRAY,
+	);
 	return ` ${makeColor("●")} ${chalk.reset(option.name)}`;
 }
@@ -0,0 +1,122 @@
+import { describe, expect, test } from "bun:test";
+import {
+	getLedgerEntry,
+	isCardMigrated,
+	type LedgerEntry,
+	recordPostedComments,
+} from "./ledger";
+import type { CardPlan, CommentPlan } from "./plan";
+import { LedgerFormat } from "./schemas";
+
+function comment(trelloId: string): CommentPlan {
+	return { trelloId, body: `comment ${trelloId}`, author: null };
+}
+
+function cardPlan(card: Partial<CardPlan> = {}): CardPlan {
+	return {
+		trello: { id: "card", url: "https://trello.com/c/card", list: "To Do" },
+		issueNumber: null,
+		update: false,
+		repo: "octocat/hello-world",
+		title: "A card",
+		body: "",
+		labels: [],
+		assignees: [],
+		milestone: null,
+		stateReason: null,
+		status: { id: "todo", name: "Todo" },
+		fields: [],
+		author: null,
+		comments: [comment("c1"), comment("c2")],
+		history: null,
+		subIssues: [],
+		attachments: [],
+		...card,
+	};
+}
+
+// The entry of a card whose every step was recorded
+function migratedEntry(): LedgerEntry {
+	const entry = getLedgerEntry(
+		LedgerFormat.parse({ version: 1, repo: "octocat/hello-world", cards: {} }),
+		"card",
+	);
+	entry.issue = { number: 1, nodeId: "I_1" };
+	entry.comments = [101, 102];
+	entry.trelloComments = { c1: 101, c2: 102 };
+	entry.projectItemId = "PVTI_1";
+	entry.statusId = "todo";
+	return entry;
+}
+
+describe("isCardMigrated", () => {
+	test("is true once every step is recorded", () => {
+		expect(isCardMigrated(migratedEntry(), cardPlan(), true)).toBe(true);
+	});
+
+	test("is false without an entry or an issue", () => {
+		expect(isCardMigrated(undefined, cardPlan(), true)).toBe(false);
+		const entry = migratedEntry();
+		entry.issue = undefined;
+		expect(isCardMigrated(entry, cardPlan(), true)).toBe(false);
+	});
+
+	test("is false for a half-finished entry", () => {
+		const entry = migratedEntry();
+		entry.comments = [101];
+		entry.trelloComments = { c1: 101 };
+		entry.projectItemId = undefined;
+		expect(isCardMigrated(entry, cardPlan(), true)).toBe(false);
+		// the project item only matters with a project
+		expect(
+			isCardMigrated(entry, cardPlan({ comments: [comment("c1")] }), false),
+		).toBe(true);
+	});
+
+	test("is false when the status changed", () => {
+		const card = cardPlan({ status: { id: "done", name: "Done" } });
+		expect(isCardMigrated(migratedEntry(), card, true)).toBe(false);
+	});
+
+	test("is false when there are new Trello comments", () => {
+		const card = cardPlan({
+			comments: [comment("c1"), comment("c2"), comment("c3")],
+		});
+		expect(isCardMigrated(migratedEntry(), card, true)).toBe(false);
+	});
+
+	test("goes by comment ID, not by how many were posted", () => {
+		// "c1" was deleted on Trello and "c3" added, so there are as many comments as before
+		const card = cardPlan({ comments: [comment("c2"), comment("c3")] });
+		expect(isCardMigrated(migratedEntry(), card, true)).toBe(false);
+	});
+});
+
+describe("recordPostedComments", () => {
+	test("matches a legacy entry's comments to the card's in order", () => {
+		const entry = migratedEntry();
+		entry.trelloComments = {};
+		const card = cardPlan({
+			comments: [comment("c1"), comment("c2"), comment("c3")],
+		});
+		recordPostedComments(entry, card);
+		expect(entry.trelloComments).toEqual({ c1: 101, c2: 102 });
+		expect(isCardMigrated(entry, card, true)).toBe(false);
+		expect(isCardMigrated(entry, cardPlan(), true)).toBe(true);
+	});
+
+	test("leaves entries that recorded comments by ID alone", () => {
+		const entry = migratedEntry();
+		entry.trelloComments = { c2: 101 };
+		recordPostedComments(entry, cardPlan());
+		expect(entry.trelloComments).toEqual({ c2: 101 });
+	});
+
+	test("does nothing for entries without comments", () => {
+		const entry = migratedEntry();
+		entry.comments = [];
+		entry.trelloComments = {};
+		recordPostedComments(entry, cardPlan());
+		expect(entry.trelloComments).toEqual({});
+	});
+});
@@ -0,0 +1,121 @@
+import { existsSync, renameSync, writeFileSync } from "node:fs";
+import { extname } from "node:path";
+import type { CardPlan } from "./plan";
+import { type Ledger, LedgerFormat } from "./schemas";
+
+export type LedgerEntry = Ledger["cards"][string];
+
+export const DEFAULT_LEDGER_PATH = ".t2gh-state.json";
+
+// Where the file of one of several boards is kept, e.g. `.t2gh-state.<board-id>.json`
+// for `--state .t2gh-state.json`. It's named after the Trello board, so adding or
+// reordering `[[boards]]` entries doesn't mix up their progress.
+export function getBoardFilePath(path: string, boardId: string): string {
+	const ext = extname(path);
+	return `${path.slice(0, path.length - ext.length)}.${boardId}${ext}`;
+}
+
+// Read the ledger at `path`, or start a new one if it doesn't exist yet.
+export async function getLedgerData(
+	path: string,
+	repo: string,
+): Promise<{
+	result: ReturnType<typeof LedgerFormat.safeParse>;
+	source: string;
+}> {
+	const ledgerVal: unknown = existsSync(path)
+		? await Bun.file(path).json()
+		: { version: 1, repo, cards: {} };
+
+	return { result: LedgerFormat.safeParse(ledgerVal), source: path };
+}
+
+// Write the ledger to disk. The file is replaced in one step,
+// so a crash never leaves a half-written state file behind.
+export function saveLedger(path: string, ledger: Ledger) {
+	const tmp = `${path}.tmp`;
+	writeFileSync(tmp, `${JSON.stringify(ledger, null, "\t")}\n`);
+	renameSync(tmp, path);
+}
+
+export function getLedgerEntry(ledger: Ledger, cardId: string): LedgerEntry {
+	ledger.cards[cardId] ??= {
+		comments: [],
+		trelloComments: {},
+		closed: false,
+		fields: {},
+		subIssues: {},
+		linksPending: false,
+	};
+	return ledger.cards[cardId];
+}
+
+// State files from before comments were recorded by their Trello ID only list what was posted,
+// in the order of the card's comments at the time.
+export function recordPostedComments(entry: LedgerEntry, card: CardPlan) {
+	if (Object.keys(entry.trelloComments).length > 0) {
+		return;
+	}
+	for (const [i, commentId] of entry.comments.entries()) {
+		const comment = card.comments[i];
+		if (comment) {
+			entry.trelloComments[comment.trelloId] = commentId;
+		}
+	}
+}
+
+// Whether every step of migrating `card` has been recorded in the ledger.
+export function isCardMigrated(
+	entry: LedgerEntry | undefined,
+	card: CardPlan,
+	hasProject: boolean,
+): boolean {
+	if (
+		!entry?.issue ||
+		card.comments.some(
+			(comment) => entry.trelloComments[comment.trelloId] === undefined,
+		)
+	) {
+		return false;
+	}
+	if (card.history && entry.history === undefined) {
+		return false;
+	}
+	if (card.stateReason && !entry.closed) {
+		return false;
+	}
+	for (const subIssue of card.subIssues) {
+		const subEntry = entry.subIssues[subIssue.checkItemId];
+		if (!subEntry?.issue || !subEntry.linked) {
+			return false;
+		}
+		if (subIssue.closed && !subEntry.closed) {
+			return false;
+		}
+		if (
+			hasProject &&
+			(!subEntry.projectItemId ||
+				subIssue.fields.some(
+					(field) => subEntry.fields[field.id] !== JSON.stringify(field.value),
+				))
+		) {
+			return false;
+		}
+	}
+	if (hasProject) {
+		if (!entry.projectItemId) {
+			return false;
+		}
+		if (card.status && entry.statusId !== card.status.id) {
+			return false;
+		}
+		if (
+			card.fields.some(
+				(field) => entry.fields[field.id] !== JSON.stringify(field.value),
+			)
+		) {
+			return false;
+		}
+	}
+	return true;
+}
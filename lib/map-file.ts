@@ -0,0 +1,832 @@
+import chalk from "chalk";
+import { type Octokit, RequestError } from "octokit";
+import TOML from "smol-toml";
+import invariant from "tiny-invariant";
+import type z from "zod";
+import type { TrelloSource } from "./cli";
+import {
+	defaultHeaders,
+	type FieldValue,
+	getProjectInfo,
+	type ProjectFieldInfo,
+	repoFullName,
+	repoRef,
+	type StatusFieldInfo,
+} from "./github";
+import {
+	applyLabelRule,
+	type Label,
+	substituteLabelName,
+	trelloColors,
+} from "./label";
+import { getDueMilestone } from "./milestones";
+import {
+	type FieldColor,
+	type MapDocument,
+	type Map as MapFile,
+	MapFormat,
+	type Trello,
+} from "./schemas";
+
+export async function getMapData(source: string): Promise<{
+	result: ReturnType<typeof MapFormat.safeParse>;
+	source: string;
+}> {
+	const mapVal: unknown = TOML.parse(await Bun.file(source).text());
+
+	return { result: MapFormat.safeParse(mapVal), source };
+}
+
+// One board to migrate, with the map that applies to it.
+export type BoardMap = {
+	// Where the board's entry is in the map file, e.g. `boards[1]` ("" without `[[boards]]`)
+	path: string;
+	// Where to read the board from; null when it's given on the command line
+	source: TrelloSource | null;
+	// The sections the board's entry sets itself, instead of using the top-level ones
+	ownSections: string[];
+	map: MapFile;
+};
+
+// Split a map file into the boards it migrates: each `[[boards]]` entry, or the
+// board given on the command line for a map file without them.
+export function getBoardMaps(document: MapDocument): BoardMap[] {
+	const { boards, ...shared } = document;
+	if (boards.length === 0) {
+		invariant(shared.repo, "the schema requires `repo` without `boards`");
+		return [
+			{
+				path: "",
+				source: null,
+				ownSections: [],
+				map: { ...shared, repo: shared.repo },
+			},
+		];
+	}
+
+	return boards.map((board, i) => {
+		const repo = board.repo ?? shared.repo;
+		invariant(
+			repo,
+			"the schema requires `repo` on the board or at the top level",
+		);
+		return {
+			path: `boards[${i}]`,
+			source: board.trello_export
+				? { type: "file", path: board.trello_export }
+				: { type: "url", path: board.trello_url ?? "" },
+			ownSections: (
+				["repo", "project", "labels", "users", "lists"] as const
+			).filter((section) => board[section] !== undefined),
+			map: {
+				...shared,
+				repo,
+				project: board.project ?? shared.project,
+				labels: board.labels ?? shared.labels,
+				users: board.users ?? shared.users,
+				lists: board.lists ?? shared.lists,
+			},
+		};
+	});
+}
+
+// Something wrong with the map file, found by checking it against Trello and GitHub.
+export type MapProblem = {
+	// Where in the map file the problem is, e.g. `lists[3].status`
+	path: string;
+	message: string;
+	severity: "error" | "warning";
+	// The name of the Trello board it was found with, when the map file has several
+	board?: string;
+};
+
+export function renderMapProblem(problem: MapProblem): string {
+	const board = problem.board ? `${chalk.bold(problem.board)} ` : "";
+	return `${board}${chalk.dim(problem.path)}: ${problem.message}`;
+}
+
+// Point the problems found with one board of a multi-board map file at where they are in
+// the file: the board's own entry, or the top-level sections it shares.
+export function getBoardProblems(
+	board: BoardMap,
+	boardName: string,
+	problems: MapProblem[],
+): MapProblem[] {
+	if (!board.path) {
+		return problems;
+	}
+	return problems.map((problem) => {
+		const section = problem.path.match(/^\w+/)?.[0];
+		return {
+			...problem,
+			path:
+				section && board.ownSections.includes(section)
+					? `${board.path}.${problem.path}`
+					: problem.path,
+			board: boardName,
+		};
+	});
+}
+
+// Render a path like `["lists", 3, "status"]` as `lists[3].status`.
+export function formatMapPath(path: PropertyKey[]): string {
+	return path
+		.map((key, i) =>
+			typeof key === "number"
+				? `[${key}]`
+				: `${i > 0 ? "." : ""}${String(key)}`,
+		)
+		.join("");
+}
+
+// The problems of a map file that doesn't match `MapFormat`.
+export function getSchemaProblems(error: z.ZodError): MapProblem[] {
+	return error.issues.map((issue) => ({
+		path: formatMapPath(issue.path),
+		message: issue.message,
+		severity: "error",
+	}));
+}
+
+export type ResolvedMap = Awaited<ReturnType<typeof resolveMap>>;
+
+type GithubRepoLabel = Awaited<
+	ReturnType<Octokit["rest"]["issues"]["listLabelsForRepo"]>
+>["data"][number];
+type GithubMilestone = Awaited<
+	ReturnType<Octokit["rest"]["issues"]["listMilestones"]>
+>["data"][number];
+
+// Milestones belong to a repository, so the milestone of a list (or the milestone
+// by due date, by its title) is kept for each repository its cards are created in.
+export function milestoneKey(repo: string, key: string): string {
+	return `${repo}:${key}`;
+}
+
+// Look up everything the map file refers to in Trello and GitHub. Nothing is changed;
+// whatever can't be found is returned in `problems`.
+export async function resolveMap(
+	octokit: Octokit,
+	trello: Trello,
+	map: MapFile,
+) {
+	const problems: MapProblem[] = [];
+	const error = (path: string, message: string) =>
+		problems.push({ path, message, severity: "error" });
+	const warning = (path: string, message: string) =>
+		problems.push({ path, message, severity: "warning" });
+
+	// The repositories cards are created in: `repo`, and those of `routes`
+	const repos: Map<string, { owner: string; repo: string }> = new Map([
+		[repoFullName(map.repo), repoRef(map.repo)],
+	]);
+	const defaultRepo = repoFullName(map.repo);
+
+	const routes: { list?: string; label?: string; repo: string }[] = [];
+	for (const [i, route] of map.routes.entries()) {
+		const name = repoFullName(route.repo);
+		if (!repos.has(name)) {
+			try {
+				await octokit.request("GET /repos/{owner}/{repo}", {
+					...repoRef(route.repo),
+					headers: defaultHeaders,
+				});
+				repos.set(name, repoRef(route.repo));
+			} catch (e) {
+				if (!(e instanceof RequestError && e.status === 404)) {
+					throw e;
+				}
+				error(
+					`routes[${i}].repo`,
+					`The repository ${name} does not exist, or your token can't access it`,
+				);
+				continue;
+			}
+		}
+
+		const trelloList =
+			route.list &&
+			trello.lists.find(
+				(list) => list.id === route.list || list.name === route.list,
+			);
+		if (route.list && !trelloList) {
+			error(
+				`routes[${i}].list`,
+				`The list "${route.list}" does not exist in Trello`,
+			);
+			continue;
+		}
+		const trelloLabel =
+			route.label &&
+			trello.labels.find(
+				(label) => label.id === route.label || label.name === route.label,
+			);
+		if (route.label && !trelloLabel) {
+			error(
+				`routes[${i}].label`,
+				`The label "${route.label}" does not exist in Trello`,
+			);
+			continue;
+		}
+		routes.push({
+			list: trelloList ? trelloList.id : undefined,
+			label: trelloLabel ? trelloLabel.id : undefined,
+			repo: name,
+		});
+	}
+
+	const skippedLists: { id: string; name: string }[] = [];
+	for (const [i, listKey] of map.skip.lists.entries()) {
+		const trelloList = trello.lists.find(
+			(list) => list.id === listKey || list.name === listKey,
+		);
+
+		if (trelloList) {
+			skippedLists.push(trelloList);
+		} else {
+			error(
+				`skip.lists[${i}]`,
+				`The list "${listKey}" does not exist in Trello`,
+			);
+		}
+	}
+
+	// The cards that are migrated: the ones in `skip.lists` get no issue, so they don't
+	// need labels or milestones. (Closed cards were already left out
+	// by `skipClosedCards()`.)
+	const migratedCards = trello.cards.filter(
+		(card) => !skippedLists.some((list) => list.id === card.idList),
+	);
+
+	// map of Trello card ID to `owner/name` of the repository its issue is created in
+	const cardRepos: Map<string, string> = new Map();
+	for (const card of trello.cards) {
+		const route = routes.find(
+			(route) =>
+				(!route.list || route.list === card.idList) &&
+				(!route.label || card.labels.some((label) => label.id === route.label)),
+		);
+		cardRepos.set(card.id, route?.repo ?? defaultRepo);
+	}
+
+	// The repositories of the cards `filter` matches. What no card uses is still
+	// looked up in `repo`, so mistakes in the map file show up all the same.
+	function reposOfCards(filter: (card: Trello["cards"][number]) => boolean) {
+		const res = new Set(
+			migratedCards
+				.filter(filter)
+				.map((card) => cardRepos.get(card.id) ?? defaultRepo),
+		);
+		return res.size > 0 ? [...res] : [defaultRepo];
+	}
+
+	// The labels and milestones of each repository, by `owner/name`
+	const githubLabels: Map<string, GithubRepoLabel[]> = new Map();
+	const githubMilestones: Map<string, GithubMilestone[]> = new Map();
+	for (const [name, repo] of repos) {
+		const labels = await octokit.paginate(
+			octokit.rest.issues.listLabelsForRepo,
+			{ ...repo, per_page: 100, headers: defaultHeaders },
+		);
+		githubLabels.set(name, labels);
+		// closed milestones too, or they'd be created again
+		const milestones = await octokit.paginate(
+			octokit.rest.issues.listMilestones,
+			{ ...repo, state: "all", per_page: 100, headers: defaultHeaders },
+		);
+		githubMilestones.set(name, milestones);
+	}
+
+	// The GitHub label where either the ID or the name matches `lookup`
+	function findGithubLabel(repo: string, lookup: string | number) {
+		return githubLabels
+			.get(repo)
+			?.find(
+				(ghLabel) =>
+					(Number.isInteger(lookup) && ghLabel.id === lookup) ||
+					ghLabel.name === lookup,
+			);
+	}
+
+	// Look up a label in every repository in `repoNames`. An ID can only match in one
+	// repository, so the others are searched for the name of the label it found.
+	function findGithubLabels(repoNames: string[], lookup: string | number) {
+		const found = repoNames.map((repo) => ({
+			repo,
+			label: findGithubLabel(repo, lookup),
+		}));
+		const first = found.find(({ label }) => label)?.label;
+		return found.map(({ repo, label }) => ({
+			repo,
+			label: label ?? (first && findGithubLabel(repo, first.name)),
+		}));
+	}
+
+	const users = [];
+	for (const [i, user] of map.users.entries()) {
+		try {
+			const githubUser = await octokit.request("GET /users/{username}", {
+				username: user.github,
+				headers: defaultHeaders,
+			});
+			users.push({ trelloName: user.trello, github: githubUser });
+		} catch (e) {
+			if (e instanceof RequestError && e.status === 404) {
+				// this member doesn't exist
+				users.push({
+					trelloName: user.trello,
+					githubName: user.github,
+					github: null,
+				});
+				error(
+					`users[${i}].github`,
+					`@${user.github} (for Trello user @${user.trello}) is not a GitHub user`,
+				);
+			} else {
+				throw e;
+			}
+		}
+		if (user.token && !Bun.env[user.token]) {
+			warning(
+				`users[${i}].token`,
+				`The environment variable ${user.token} is not set, so @${user.github}'s cards and comments will be posted by you`,
+			);
+		}
+	}
+	const validMembers = users.filter((mem) => mem.github);
+
+	const projectInfo = await getProjectInfo(octokit, map);
+
+	const labels: Label[] = [];
+
+	// map of repository and Trello List ID (see `milestoneKey()`) to milestone info
+	type MilestoneInfo = { id: number; number: number; title: string };
+	const validMilestones: Map<string, MilestoneInfo> = new Map();
+	// map of repository and title (see `milestoneKey()`) to the milestones by due date
+	const dueMilestones: Map<string, MilestoneInfo> = new Map();
+	// Milestones that don't exist, but are created before migrating (`create = true`).
+	// `lists` are the Trello List IDs whose cards go into it.
+	const milestonesToCreate: Array<{
+		repo: string;
+		title: string;
+		dueOn: string | null;
+		description: string | null;
+		lists: string[];
+	}> = [];
+
+	function createMilestone(
+		repo: string,
+		title: string,
+		dueOn: string | null,
+		description: string | null,
+	) {
+		let milestone = milestonesToCreate.find(
+			(m) => m.repo === repo && m.title === title,
+		);
+		if (!milestone) {
+			milestone = { repo, title, dueOn, description, lists: [] };
+			milestonesToCreate.push(milestone);
+		}
+		return milestone;
+	}
+
+	// map of Trello List ID to status field info
+	const validStatusFields: Map<string, StatusFieldInfo["options"][number]> =
+		new Map();
+	const statusFieldsToCreate: Array<{
+		trelloListId: string;
+		name: string;
+		color: FieldColor;
+	}> = [];
+
+	// map of Trello List ID to the other project fields (than Status) its cards are set to
+	const listFields: Map<
+		string,
+		{ field: ProjectFieldInfo; value: FieldValue; display: string }[]
+	> = new Map();
+
+	// The single select or iteration field a `[[lists]]` entry sets: the one named by `field`,
+	// or else the project's only iteration field.
+	function findListField(
+		i: number,
+		mapping: MapFile["lists"][number],
+		dataType: "SINGLE_SELECT" | "ITERATION",
+	): ProjectFieldInfo | null {
+		invariant(projectInfo, "list fields can only be looked up in a project");
+		const fields = projectInfo.fields.filter(
+			(field) => field.dataType === dataType,
+		);
+		if (mapping.field) {
+			const field = fields.find(
+				(field) => field.id === mapping.field || field.name === mapping.field,
+			);
+			if (!field) {
+				error(
+					`lists[${i}].field`,
+					`The field "${mapping.field}" does not exist in the project "${projectInfo.projectName}", or is not ${dataType === "ITERATION" ? "an iteration" : "a single select"} field`,
+				);
+			}
+			return field ?? null;
+		}
+		const [field, ...others] = fields;
+		if (!field || others.length > 0) {
+			error(
+				`lists[${i}].iteration`,
+				field
+					? `The project "${projectInfo.projectName}" has several iteration fields, so \`field\` has to name one`
+					: `The project "${projectInfo.projectName}" has no iteration field`,
+			);
+			return null;
+		}
+		return field;
+	}
+
+	// Look up the iteration or single select option a `[[lists]]` entry sets (see `listFields`)
+	function resolveListField(
+		i: number,
+		mapping: MapFile["lists"][number],
+		trelloListId: string,
+	) {
+		const key = mapping.iteration ? "iteration" : "status";
+		if (!projectInfo) {
+			error(
+				`lists[${i}].${key}`,
+				`${mapping.iteration ? "An iteration" : "A field"} can only be used if \`project\` is set`,
+			);
+			return;
+		}
+		const field = findListField(
+			i,
+			mapping,
+			mapping.iteration ? "ITERATION" : "SINGLE_SELECT",
+		);
+		if (!field) {
+			return;
+		}
+		const lookup = mapping.iteration ?? mapping.status;
+		let value: { value: FieldValue; display: string } | undefined;
+		if (mapping.iteration) {
+			const iteration = field.iterations?.find(
+				(iteration) => iteration.id === lookup || iteration.title === lookup,
+			);
+			value = iteration && {
+				value: { iterationId: iteration.id },
+				display: iteration.title,
+			};
+		} else {
+			const option = field.options?.find(
+				(option) => option.id === lookup || option.name === lookup,
+			);
+			value = option && {
+				value: { singleSelectOptionId: option.id },
+				display: option.name,
+			};
+		}
+		if (!value) {
+			error(
+				`lists[${i}].${key}`,
+				`The ${mapping.iteration ? "iteration" : "option"} ${lookup} does not exist in the field "${field.name}" of the project "${projectInfo.projectName}"`,
+			);
+			return;
+		}
+		listFields.set(trelloListId, [
+			...(listFields.get(trelloListId) ?? []),
+			{ field, ...value },
+		]);
+	}
+
+	// The first rule that matches a label decides what it becomes, then `[labels.default]`.
+	function mapTrelloLabel(trelloLabel: { name: string; color: string }) {
+		for (const [i, rule] of map.labels.rules.entries()) {
+			const github = applyLabelRule(rule, trelloLabel);
+			if (github !== null) {
+				return { ...rule, github, path: `${map.labels.rulesPath}[${i}]` };
+			}
+		}
+		if (map.labels.default) {
+			return {
+				...map.labels.default,
+				github: substituteLabelName(map.labels.default.github, [
+					trelloLabel.name,
+				]),
+				path: "labels.default",
+			};
+		}
+		return null;
+	}
+
+	for (const trelloLabel of trello.labels) {
+		const mapped = mapTrelloLabel(trelloLabel);
+		// color-only labels have no name to give to a GitHub label
+		if (!mapped || mapped.github === "") {
+			labels.push({ type: "skipped", trello: trelloLabel });
+			warning(
+				map.labels.rulesPath,
+				`No rule matches the Trello label "${trelloLabel.name || trelloLabel.color}", so it will not be transferred`,
+			);
+			continue;
+		}
+		if (mapped.create) {
+			labels.push({
+				type: "toCreate",
+				trello: trelloLabel,
+				github: {
+					name: mapped.github.toString(),
+					color: mapped.color ?? trelloColors[trelloLabel.color],
+				},
+			});
+			continue;
+		}
+		const found = findGithubLabels(
+			reposOfCards((card) =>
+				card.labels.some((label) => label.id === trelloLabel.id),
+			),
+			mapped.github,
+		);
+		const missing = found.filter(({ label }) => !label);
+		const githubLabel = found.find(({ label }) => label)?.label;
+		if (!githubLabel || missing.length > 0) {
+			labels.push({
+				type: "missing",
+				trello: trelloLabel,
+				githubLookup: mapped.github,
+			});
+			for (const { repo } of missing) {
+				error(
+					`${mapped.path}.github`,
+					`The label ${mapped.github} (for Trello label "${trelloLabel.name}") does not exist in ${repo}`,
+				);
+			}
+			continue;
+		}
+		labels.push({ type: "mapped", trello: trelloLabel, github: githubLabel });
+	}
+
+	for (const [i, mapping] of map.lists.entries()) {
+		const trelloList = trello.lists.find(
+			(list) => list.id === mapping.list || list.name === mapping.list,
+		);
+		if (!trelloList) {
+			error(
+				`lists[${i}].list`,
+				`The list "${mapping.list}" does not exist in Trello`,
+			);
+			continue;
+		}
+
+		const listRepos = reposOfCards((card) => card.idList === trelloList.id);
+
+		if (mapping.label) {
+			const found = findGithubLabels(listRepos, mapping.label);
+			const missing = found.filter(({ label }) => !label);
+			const githubLabel = found.find(({ label }) => label)?.label;
+			if (githubLabel && missing.length === 0) {
+				labels.push({ type: "listMapped", github: githubLabel, trelloList });
+			} else {
+				labels.push({
+					type: "missingList",
+					githubLookup: mapping.label,
+					trelloList,
+				});
+				for (const { repo } of missing) {
+					error(
+						`lists[${i}].label`,
+						`The label ${mapping.label} does not exist in ${repo}`,
+					);
+				}
+			}
+		}
+
+		if (mapping.milestone) {
+			for (const repo of listRepos) {
+				const githubMilestone = githubMilestones
+					.get(repo)
+					?.find(
+						(milestone) =>
+							(Number.isInteger(mapping.milestone) &&
+								(milestone.id === mapping.milestone ||
+									milestone.number === mapping.milestone)) ||
+							milestone.title === mapping.milestone,
+					);
+				if (githubMilestone) {
+					validMilestones.set(
+						milestoneKey(repo, trelloList.id),
+						githubMilestone,
+					);
+				} else if (mapping.create && typeof mapping.milestone === "string") {
+					// a milestone is only created when there are cards to put in it
+					if (migratedCards.some((card) => card.idList === trelloList.id)) {
+						createMilestone(
+							repo,
+							mapping.milestone,
+							mapping.milestone_due ?? null,
+							mapping.milestone_description ?? null,
+						).lists.push(trelloList.id);
+					}
+				} else {
+					error(
+						`lists[${i}].milestone`,
+						`The milestone ${mapping.milestone} does not exist in ${repo}`,
+					);
+				}
+			}
+		}
+
+		if (mapping.iteration || (mapping.status && mapping.field)) {
+			resolveListField(i, mapping, trelloList.id);
+		}
+
+		if (mapping.status && !mapping.field) {
+			if (!projectInfo) {
+				error(
+					`lists[${i}].status`,
+					"A status can only be used if `project` is set",
+				);
+				continue;
+			}
+			const projectStatusField = projectInfo.statusFieldOptions.find(
+				(field) => field.id === mapping.status || field.name === mapping.status,
+			);
+			if (!projectStatusField) {
+				if (mapping.create && typeof mapping.status === "string") {
+					// Status doesn't exist but create flag is set - it's added to the project before migrating
+					statusFieldsToCreate.push({
+						trelloListId: trelloList.id,
+						name: mapping.status,
+						color: mapping.color ?? "GRAY",
+					});
+				} else {
+					// Status doesn't exist and no create flag - error
+					error(
+						`lists[${i}].status`,
+						`The status ${mapping.status} does not exist in the project "${projectInfo.projectName}"`,
+					);
+				}
+				continue;
+			}
+			// Status field exists - map it regardless of create flag
+			validStatusFields.set(trelloList.id, projectStatusField);
+		}
+	}
+
+	if (map.milestones) {
+		// each milestone is looked up once for each repository
+		const checked = new Set<string>();
+		for (const card of migratedCards) {
+			const milestone = card.due && getDueMilestone(map.milestones, card.due);
+			if (!milestone) {
+				continue;
+			}
+			const repo = cardRepos.get(card.id) ?? defaultRepo;
+			const key = milestoneKey(repo, milestone.title);
+			if (checked.has(key)) {
+				continue;
+			}
+			checked.add(key);
+			const githubMilestone = githubMilestones
+				.get(repo)
+				?.find((m) => m.title === milestone.title);
+			if (githubMilestone) {
+				dueMilestones.set(key, githubMilestone);
+			} else if (map.milestones.create) {
+				createMilestone(
+					repo,
+					milestone.title,
+					milestone.dueOn,
+					milestone.description,
+				);
+			} else {
+				error(
+					"milestones",
+					`The milestone "${milestone.title}" (for cards due by ${milestone.dueOn}) does not exist in ${repo}`,
+				);
+			}
+		}
+	}
+
+	// map of Trello card date to the project date field it fills
+	const dateFields: Map<"start" | "due", ProjectFieldInfo> = new Map();
+	for (const key of ["start", "due"] as const) {
+		const fieldName = map.dates[key];
+		// without a project, dates are written into the issue body instead
+		if (!fieldName || !projectInfo) {
+			continue;
+		}
+		const field = projectInfo.fields.find(
+			(field) =>
+				(field.id === fieldName || field.name === fieldName) &&
+				field.dataType === "DATE",
+		);
+		if (!field) {
+			error(
+				`dates.${key}`,
+				`The date field "${fieldName}" does not exist in the project "${projectInfo.projectName}", or is not a date field`,
+			);
+			continue;
+		}
+		dateFields.set(key, field);
+	}
+
+	type TrelloCustomField = Trello["customFields"][number];
+	// map of Trello custom field ID to the project field it fills
+	const customFields: Map<
+		string,
+		{ trello: TrelloCustomField; github: ProjectFieldInfo }
+	> = new Map();
+
+	// The project field type each Trello custom field type can be put into
+	const customFieldTypes: Record<TrelloCustomField["type"], string> = {
+		text: "TEXT",
+		number: "NUMBER",
+		date: "DATE",
+		list: "SINGLE_SELECT",
+		checkbox: "SINGLE_SELECT",
+	};
+
+	for (const [i, mapping] of map.fields.entries()) {
+		const trelloField = trello.customFields.find(
+			(field) => field.id === mapping.trello || field.name === mapping.trello,
+		);
+		if (!trelloField) {
+			error(
+				`fields[${i}].trello`,
+				`The custom field "${mapping.trello}" does not exist in Trello`,
+			);
+			continue;
+		}
+		// without a project, custom fields are written into the issue body instead
+		if (!projectInfo) {
+			continue;
+		}
+
+		const githubField = projectInfo.fields.find(
+			(field) => field.id === mapping.github || field.name === mapping.github,
+		);
+		if (!githubField) {
+			error(
+				`fields[${i}].github`,
+				`The field "${mapping.github}" does not exist in the project "${projectInfo.projectName}"`,
+			);
+			continue;
+		}
+		const expectedType = customFieldTypes[trelloField.type];
+		if (githubField.dataType !== expectedType) {
+			error(
+				`fields[${i}].github`,
+				`"${githubField.name}" is a ${githubField.dataType} field, but "${trelloField.name}" needs a ${expectedType} field`,
+			);
+			continue;
+		}
+
+		const optionNames =
+			trelloField.type === "checkbox"
+				? ["Yes", "No"]
+				: trelloField.options.map((option) => option.value.text);
+		const missingOptions = optionNames.filter(
+			(name) => !githubField.options?.some((option) => option.name === name),
+		);
+		if (missingOptions.length > 0) {
+			error(
+				`fields[${i}].github`,
+				`"${githubField.name}" is missing the options ${missingOptions.map((name) => `"${name}"`).join(", ")}`,
+			);
+			continue;
+		}
+
+		customFields.set(trelloField.id, {
+			trello: trelloField,
+			github: githubField,
+		});
+	}
+
+	// map of Trello List ID to the reason its cards' issues are closed
+	const closingLists: Map<string, "completed" | "not_planned"> = new Map();
+	for (const mapping of map.lists) {
+		const trelloList = trello.lists.find(
+			(list) => list.id === mapping.list || list.name === mapping.list,
+		);
+		if (trelloList && (mapping.close || mapping.state_reason)) {
+			closingLists.set(trelloList.id, mapping.state_reason ?? "completed");
+		}
+	}
+
+	return {
+		githubLabels,
+		githubMilestones,
+		cardRepos,
+		validMembers,
+		projectInfo,
+		labels,
+		validMilestones,
+		dueMilestones,
+		milestonesToCreate,
+		validStatusFields,
+		statusFieldsToCreate,
+		dateFields,
+		customFields,
+		listFields,
+		closingLists,
+		skippedLists,
+		problems,
+	};
+}
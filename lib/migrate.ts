@@ -0,0 +1,2111 @@
+import { existsSync } from "node:fs";
+import * as p from "@clack/prompts";
+import chalk from "chalk";
+import { type Octokit, RequestError } from "octokit";
+import invariant from "tiny-invariant";
+import z from "zod";
+import { createAttachmentHost } from "./attachments";
+import {
+	askGithubToken,
+	askTrelloSource,
+	confirm,
+	fail,
+	intro,
+	listConjunction,
+	onCancel,
+	requireInteractive,
+	setInteractivity,
+} from "./cli";
+import {
+	addStatusOptions,
+	createOctokit,
+	type FieldValue,
+	getProjectInfo,
+	ownerLogin,
+	type ProjectFieldInfo,
+	repoRequest,
+} from "./github";
+import {
+	renderGithubFieldOption,
+	renderGithubLabel,
+	renderTrelloLabel,
+} from "./label";
+import {
+	getBoardFilePath,
+	getLedgerData,
+	getLedgerEntry,
+	isCardMigrated,
+	type LedgerEntry,
+	recordPostedComments,
+	saveLedger,
+} from "./ledger";
+import {
+	getBoardMaps,
+	getBoardProblems,
+	getMapData,
+	type MapProblem,
+	milestoneKey,
+	type ResolvedMap,
+	renderMapProblem,
+	resolveMap,
+} from "./map-file";
+import { getDueMilestone } from "./milestones";
+import { type OutputFormat, setOutputFormat, ui } from "./output";
+import {
+	type CardPlan,
+	type CommentPlan,
+	type IssueClosePlan,
+	inferPlanFormat,
+	type MigrationPlan,
+	type PlanFormat,
+	renderPlan,
+	renderPlanSummary,
+	type StatusUpdatePlan,
+	type SubIssuePlan,
+} from "./plan";
+import {
+	inferReportFormat,
+	type MigrationReport,
+	type ReportCard,
+	type ReportFormat,
+	renderReport,
+	type SkipReason,
+} from "./report";
+import { runConcurrently } from "./scheduler";
+import type { Ledger, Map as MapFile, Trello } from "./schemas";
+import { CARD_LINK, rewriteText } from "./text";
+import {
+	downloadTrelloAttachment,
+	getTrelloCredentials,
+	getTrelloData,
+	type SkippedCard,
+	skipClosedCards,
+	type TrelloCard,
+	type TrelloCredentials,
+} from "./trello";
+
+export type MigrateOptions = {
+	githubToken?: string;
+	map?: string;
+	dryRun?: boolean;
+	planOutput?: string;
+	planFormat?: PlanFormat;
+	// where to write the report of the run
+	report?: string;
+	reportFormat?: ReportFormat;
+	keepClosed?: boolean;
+	keepClosedLists?: boolean;
+	// how many cards are migrated at the same time
+	concurrency: number;
+	// where progress is recorded, so an interrupted run can be resumed
+	state: string;
+	trelloExport?: string;
+	trelloUrl?: string;
+	trelloKey?: string;
+	trelloToken?: string;
+	// answer every confirmation with yes
+	yes?: boolean;
+	// fail instead of prompting for anything
+	nonInteractive?: boolean;
+	format: OutputFormat;
+};
+
+// "migrate" creates the issues of cards that weren't migrated yet; "sync" also
+// updates the issues of cards that changed on Trello since they were written.
+export type MigrateMode = "migrate" | "sync";
+
+export async function migrate(
+	opts: MigrateOptions,
+	mode: MigrateMode = "migrate",
+) {
+	setOutputFormat(opts.format);
+	setInteractivity(opts);
+	intro();
+
+	const group = await p.group(
+		{
+			mapIsCreated: async () => {
+				if (opts.map && typeof opts.map === "string") {
+					return true;
+				}
+				requireInteractive(`a map file (${chalk.green("--map")})`);
+
+				const created = await p.confirm({
+					message: `Have you created a ${chalk.green("map.toml")} file?`,
+				});
+				if (!created) {
+					ui.cancel(
+						`Run ${chalk.green("t2gh create-map")} to build this file.`,
+					);
+					process.exit(0);
+				}
+			},
+			ghToken: () => askGithubToken(opts.githubToken),
+			mapFile: async () => {
+				if (opts.map && typeof opts.map === "string" && existsSync(opts.map)) {
+					return opts.map;
+				}
+				requireInteractive(`the map file ${chalk.red(opts.map)}`);
+
+				return p.text({
+					message: `Where is your ${chalk.green("map.toml")} file?`,
+					placeholder: "./map.toml",
+					validate: (val) => {
+						if (!val) {
+							return "Please enter a path.";
+						} else if (!val.endsWith(".toml")) {
+							return `The ${chalk.green("map.toml")} file (${chalk.red(val)}) must be a TOML file.`;
+						} else if (!existsSync(val)) {
+							return `The path ${chalk.red(val)} does not exist.`;
+						}
+					},
+				});
+			},
+		},
+		{ onCancel },
+	);
+
+	const getMap = await getMapData(group.mapFile);
+	if (!getMap.result.success) {
+		ui.log.warn(`Failed to parse map file (${getMap.source}):`);
+		ui.log.error(z.prettifyError(getMap.result.error));
+		fail();
+	}
+	const boardMaps = getBoardMaps(getMap.result.data);
+	const listsBoards = boardMaps.some((board) => board.path !== "");
+	if (listsBoards && (opts.trelloExport || opts.trelloUrl)) {
+		ui.log.warn(
+			`The map file lists its boards, so ${chalk.dim("--trello-export")} and ${chalk.dim("--trello-url")} are ignored.`,
+		);
+	}
+	// a dry run has no issues to report on; its plan is written with `--plan-output`
+	if (opts.dryRun && opts.report) {
+		ui.log.warn(
+			`A dry run has nothing to report, so ${chalk.dim("--report")} is ignored. Use ${chalk.dim("--plan-output")} to save the plan.`,
+		);
+	}
+
+	const trelloCredentials = getTrelloCredentials(opts);
+	const octokit = createOctokit(group.ghToken);
+
+	// Every board is read and checked before any is migrated, so a mistake in
+	// the map of one board doesn't stop the run halfway through the others.
+	const boards: BoardToMigrate[] = [];
+	const problems: MapProblem[] = [];
+	for (const board of boardMaps) {
+		const source = board.source ?? (await askTrelloSource(opts));
+		const getTrello = await getTrelloData(source, trelloCredentials);
+		if (!getTrello.result.success) {
+			ui.log.warn(`Failed to parse export file (${getTrello.source}):`);
+			ui.log.error(z.prettifyError(getTrello.result.error));
+			fail();
+		}
+		const trello = getTrello.result.data;
+
+		const skippedCards = skipClosedCards(trello, opts);
+
+		const repoName = `${ownerLogin(board.map.repo.owner)}/${board.map.repo.repo}`;
+		// the boards of `[[boards]]` get files of their own, even if there's only one,
+		// so that adding a board to the map later doesn't change where they are
+		const statePath = listsBoards
+			? getBoardFilePath(opts.state, trello.id)
+			: opts.state;
+		const getLedger = await getLedgerData(statePath, repoName);
+		if (!getLedger.result.success) {
+			ui.log.warn(`Failed to parse state file (${getLedger.source}):`);
+			ui.log.error(z.prettifyError(getLedger.result.error));
+			fail();
+		}
+		const ledger = getLedger.result.data;
+		if (ledger.repo !== repoName) {
+			ui.log.error(
+				`The state file (${getLedger.source}) belongs to a migration into ${chalk.bold(ledger.repo)}, not ${chalk.bold(repoName)}.`,
+			);
+			fail();
+		}
+
+		if (boardMaps.length > 1) {
+			ui.log.info(
+				`Checking ${chalk.bold(trello.name)} -> ${chalk.green(repoName)}`,
+			);
+		}
+		const resolved = await resolveMap(octokit, trello, board.map);
+		problems.push(...getBoardProblems(board, trello.name, resolved.problems));
+		boards.push({
+			map: board.map,
+			trello,
+			resolved,
+			ledger,
+			statePath,
+			skippedCards,
+			planOutput:
+				opts.planOutput && listsBoards
+					? getBoardFilePath(opts.planOutput, trello.id)
+					: opts.planOutput,
+			reportOutput:
+				opts.report && listsBoards
+					? getBoardFilePath(opts.report, trello.id)
+					: opts.report,
+		});
+	}
+
+	for (const problem of problems) {
+		const log = problem.severity === "error" ? ui.log.error : ui.log.warn;
+		log(renderMapProblem(problem));
+	}
+	if (problems.some((problem) => problem.severity === "error")) {
+		fail();
+	}
+
+	const summaries: BoardSummary[] = [];
+	for (const board of boards) {
+		if (boards.length > 1) {
+			ui.log.step(
+				`Migrating ${chalk.bold(board.trello.name)} (${summaries.length + 1}/${boards.length})`,
+			);
+		}
+		summaries.push(
+			await migrateBoard(opts, mode, octokit, trelloCredentials, board),
+		);
+	}
+
+	if (boards.length > 1) {
+		ui.note(
+			summaries
+				.map(
+					(summary) =>
+						`${chalk.bold(summary.board)} -> ${chalk.green(summary.repo)}: ${
+							opts.dryRun
+								? `${chalk.blue(summary.planned)} issues to ${mode === "sync" ? "create or update" : "create"}`
+								: `${chalk.blue(summary.created)} created, ${mode === "sync" ? `${chalk.blue(summary.updated)} updated, ` : ""}${chalk.blue(summary.resumed)} finished from an earlier run, ${chalk[summary.failed > 0 ? "red" : "blue"](summary.failed)} failed`
+						}`,
+				)
+				.join("\n"),
+			"Boards:",
+		);
+	}
+
+	if (opts.dryRun) {
+		ui.outro(`Dry run complete. ${chalk.dim("No changes were made.")}`);
+		return;
+	}
+	const failed = summaries.reduce((sum, summary) => sum + summary.failed, 0);
+	if (failed > 0) {
+		fail(
+			`${chalk.red(failed)} cards failed to migrate. Re-run the same command to retry them.`,
+		);
+	}
+	ui.outro();
+}
+
+// A board that was read and checked, ready to be migrated.
+type BoardToMigrate = {
+	map: MapFile;
+	trello: Trello;
+	resolved: ResolvedMap;
+	ledger: Ledger;
+	// where the ledger is saved
+	statePath: string;
+	// cards that were filtered out so far, for the report
+	skippedCards: SkippedCard[];
+	// where the plan is written with `--plan-output`
+	planOutput?: string;
+	// where the report is written with `--report`
+	reportOutput?: string;
+};
+
+type BoardSummary = {
+	board: string;
+	repo: string;
+	// how many issues the plan creates or updates
+	planned: number;
+	created: number;
+	updated: number;
+	resumed: number;
+	failed: number;
+};
+
+async function migrateBoard(
+	opts: MigrateOptions,
+	mode: MigrateMode,
+	octokit: Octokit,
+	trelloCredentials: TrelloCredentials | null,
+	{
+		map,
+		trello,
+		resolved,
+		ledger,
+		statePath,
+		skippedCards,
+		planOutput,
+		reportOutput,
+	}: BoardToMigrate,
+): Promise<BoardSummary> {
+	const repoData = {
+		owner: ownerLogin(map.repo.owner),
+		repo: map.repo.repo,
+	};
+	const repoName = `${repoData.owner}/${repoData.repo}`;
+
+	const attachmentHost = createAttachmentHost(
+		octokit,
+		repoData,
+		map.attachments,
+	);
+	if (attachmentHost && !trelloCredentials) {
+		ui.log.warn(
+			`Attachments on private boards can only be downloaded with ${chalk.dim("--trello-key")} and ${chalk.dim("--trello-token")}.`,
+		);
+	}
+
+	const {
+		githubLabels,
+		cardRepos,
+		validMembers,
+		labels,
+		validMilestones,
+		dueMilestones,
+		milestonesToCreate,
+		validStatusFields,
+		statusFieldsToCreate,
+		dateFields,
+		customFields,
+		listFields,
+		closingLists,
+		skippedLists,
+	} = resolved;
+	let projectInfo = resolved.projectInfo;
+
+	trello.cards = trello.cards.filter((card) => {
+		if (skippedLists.some((list) => list.id === card.idList)) {
+			skippedCards.push({ card, reason: "skipped list" });
+			return false;
+		}
+		return true;
+	});
+
+	type TrelloCustomField = (typeof trello.customFields)[number];
+
+	// migrate the cards list by list, top to bottom, as they're shown in Trello
+	const listPositions = new Map(
+		trello.lists.map((list) => [list.id, list.pos]),
+	);
+	trello.cards.sort(
+		(a, b) =>
+			(listPositions.get(a.idList) ?? 0) - (listPositions.get(b.idList) ?? 0) ||
+			a.pos - b.pos,
+	);
+
+	const mappedLabels = labels.filter(
+		(l) =>
+			l.type === "toCreate" || l.type === "mapped" || l.type === "listMapped",
+	);
+	const skippedLabels = labels.filter((l) => l.type === "skipped");
+
+	ui.note(
+		chalk.reset(
+			mappedLabels
+				.map((label) => {
+					const origin =
+						label.type === "listMapped"
+							? `From list ${chalk.underline.bold(label.trelloList.name)}`
+							: renderTrelloLabel(label);
+					return `${origin} -> ${renderGithubLabel(label)}`;
+				})
+				.join("\n"),
+		),
+		"Mapping labels:",
+	);
+
+	if (validStatusFields.size > 0) {
+		ui.note(
+			chalk.reset(
+				[...validStatusFields.entries()]
+					.map(([listId, field]) => {
+						return `${chalk.bold(trello.lists.find((list) => list.id === listId)?.name)} -> ${renderGithubFieldOption(field)}`;
+					})
+					.join("\n"),
+			),
+			"Mapping columns:",
+		);
+	}
+
+	// clients for the members that gave their own token, by GitHub login
+	const userOctokits: Map<string, Octokit> = new Map();
+	for (const user of map.users) {
+		const member = validMembers.find((mem) => mem.trelloName === user.trello);
+		const token = user.token && Bun.env[user.token];
+		if (token && member?.github) {
+			userOctokits.set(member.github.data.login, createOctokit(token));
+		}
+	}
+
+	if (skippedLabels.length > 0 && !opts.dryRun) {
+		await confirm("Would you like to continue?");
+	}
+
+	// New labels are created in each repository the cards with them go to,
+	// or in `repo` when no card has them.
+	function getReposForLabel(trelloLabelId: string): string[] {
+		const repos = trello.cards
+			.filter((card) => card.labels.some((label) => label.id === trelloLabelId))
+			.map((card) => cardRepos.get(card.id) ?? repoName);
+		return repos.length > 0 ? [...new Set(repos)] : [repoName];
+	}
+
+	// several Trello labels can map to the same new label
+	const labelsToCreate = labels
+		.filter((l) => l.type === "toCreate")
+		.flatMap((label) =>
+			getReposForLabel(label.trello.id).map((repo) => ({ ...label, repo })),
+		)
+		.filter(
+			(label, i, all) =>
+				all.findIndex(
+					(l) => l.github.name === label.github.name && l.repo === label.repo,
+				) === i,
+		)
+		// an earlier run (or `sync`) already created these, so they're used as they are
+		.filter(
+			(label) =>
+				!ledger.labels.some(
+					(created) =>
+						created.repo === label.repo && created.name === label.github.name,
+				),
+		);
+	const existingLabelsToCreate = labelsToCreate.filter((label) =>
+		githubLabels
+			.get(label.repo)
+			?.some((ghLabel) => ghLabel.name === label.github.name),
+	);
+
+	if (existingLabelsToCreate.length > 0) {
+		const existingLabels = listConjunction.format(
+			existingLabelsToCreate.map((label) => renderGithubLabel(label)),
+		);
+		ui.log.warn(`These labels already exist in GitHub: ${existingLabels}`);
+		if (!opts.dryRun) {
+			await confirm("Are you sure you would like to continue creating them?");
+		}
+	}
+
+	if (labelsToCreate.length > 0 && !opts.dryRun) {
+		const spin = ui.spinner({ indicator: "timer" });
+		spin.start(`Creating labels [0/${labelsToCreate.length}]`);
+		let createdCount = 0;
+		let skippedCount = 0;
+		for (const [count, label] of labelsToCreate.entries()) {
+			try {
+				await octokit.request("POST /repos/{owner}/{repo}/labels", {
+					...repoRequest(label.repo),
+					name: label.github.name,
+					color: label.github.color?.trim().replace(/^#/, ""),
+				});
+				ledger.labels.push({ repo: label.repo, name: label.github.name });
+				saveLedger(statePath, ledger);
+				createdCount++;
+			} catch (e) {
+				if (e instanceof RequestError && e.status === 422) {
+					// Label already exists, skip it
+					ui.log.warn(
+						`Label ${chalk.yellow(label.github.name)} already exists, skipping...`,
+					);
+					skippedCount++;
+				} else {
+					// Re-throw other errors
+					throw e;
+				}
+			}
+			spin.message(`Creating labels [${count + 1}/${labelsToCreate.length}]`);
+		}
+		spin.stop(
+			`Created ${createdCount} labels${skippedCount > 0 ? `, skipped ${skippedCount} existing labels` : ""}.`,
+		);
+	}
+
+	// several lists can map to the same new status
+	const statusOptionsToCreate = statusFieldsToCreate.filter(
+		(status, i) =>
+			statusFieldsToCreate.findIndex((s) => s.name === status.name) === i,
+	);
+
+	if (projectInfo && statusOptionsToCreate.length > 0) {
+		const statusesToCreate = listConjunction.format(
+			statusOptionsToCreate.map((s) => renderGithubFieldOption(s)),
+		);
+		// The API replaces all of the field's options at once, giving the existing ones new IDs
+		if (projectInfo.statusFieldOptions.length > 0) {
+			ui.log.warn(
+				`Adding status fields recreates the project's existing Status options. Project items that aren't migrated from this board will lose their Status.`,
+			);
+			if (!opts.dryRun) {
+				await confirm("Are you sure you would like to add the status fields?");
+			}
+		}
+		if (opts.dryRun) {
+			ui.log.info(
+				`These status fields will be added to the project (${chalk.dim("create = true")}): ${statusesToCreate}`,
+			);
+		} else {
+			const spin = ui.spinner({ indicator: "timer" });
+			spin.start(`Adding ${statusOptionsToCreate.length} status fields`);
+			await addStatusOptions(octokit, projectInfo, statusOptionsToCreate);
+			projectInfo = await getProjectInfo(octokit, map);
+			invariant(projectInfo, "the project should still exist");
+
+			for (const status of statusFieldsToCreate) {
+				const option = projectInfo.statusFieldOptions.find(
+					(field) => field.name === status.name,
+				);
+				invariant(
+					option,
+					`the status "${status.name}" should have been created`,
+				);
+				validStatusFields.set(status.trelloListId, option);
+			}
+			// GitHub may give the existing options new IDs, so look those up again as well
+			for (const [listId, status] of validStatusFields) {
+				const option = projectInfo.statusFieldOptions.find(
+					(field) => field.name === status.name,
+				);
+				if (option) {
+					validStatusFields.set(listId, option);
+				}
+			}
+			spin.stop(`Added status fields: ${statusesToCreate}`);
+		}
+	}
+
+	if (milestonesToCreate.length > 0) {
+		const milestoneNames = listConjunction.format(
+			milestonesToCreate.map(
+				(milestone) =>
+					`${chalk.bold(milestone.title)}${milestone.repo !== repoName ? ` (${milestone.repo})` : ""}`,
+			),
+		);
+		if (opts.dryRun) {
+			ui.log.info(
+				`These milestones will be created (${chalk.dim("create = true")}): ${milestoneNames}`,
+			);
+		} else {
+			const spin = ui.spinner({ indicator: "timer" });
+			spin.start(`Creating ${milestonesToCreate.length} milestones`);
+			for (const milestone of milestonesToCreate) {
+				const res = await octokit.request(
+					"POST /repos/{owner}/{repo}/milestones",
+					{
+						...repoRequest(milestone.repo),
+						title: milestone.title,
+						due_on: milestone.dueOn
+							? `${milestone.dueOn}T00:00:00Z`
+							: undefined,
+						description: milestone.description ?? undefined,
+					},
+				);
+				ledger.milestones.push({
+					repo: milestone.repo,
+					number: res.data.number,
+					title: milestone.title,
+				});
+				saveLedger(statePath, ledger);
+				for (const listId of milestone.lists) {
+					validMilestones.set(milestoneKey(milestone.repo, listId), res.data);
+				}
+				dueMilestones.set(
+					milestoneKey(milestone.repo, milestone.title),
+					res.data,
+				);
+			}
+			spin.stop(`Created milestones: ${milestoneNames}`);
+		}
+	}
+
+	function mapMemberId(trelloMemberId: string): string | null {
+		const trelloMember = trello.members.find(
+			(mem) => mem.id === trelloMemberId,
+		);
+		if (!trelloMember) return null;
+
+		// Trello members can be searched by ID, username, or full name
+		const member = validMembers.find((mem) =>
+			[trelloMember.id, trelloMember.username, trelloMember.fullName].includes(
+				mem.trelloName,
+			),
+		);
+		if (!member?.github) return null;
+		return member.github.data.login;
+	}
+
+	function mapMemberIds(trelloMemberIds: string[]): string[] {
+		return trelloMemberIds.map(mapMemberId).filter((m) => m !== null);
+	}
+
+	// The card a link points to, by the short link or ID in its URL.
+	function getLinkedCard(linkId: string): TrelloCard | undefined {
+		return trello.cards.find(
+			(card) => card.shortLink === linkId || card.id === linkId,
+		);
+	}
+
+	// `owner/name` of the repository the card's issue is in, or will be created in
+	function getRepoForCard(cardId: string): string {
+		const entry = ledger.cards[cardId];
+		if (entry?.issue) {
+			return entry.repo ?? ledger.repo;
+		}
+		return cardRepos.get(cardId) ?? repoName;
+	}
+
+	// A reference to the issue of a linked card, like `#12`, or `owner/name#12` when
+	// it's in another repository than `fromRepo`.
+	function getLinkedIssueRef(linkId: string, fromRepo: string): string | null {
+		const card = getLinkedCard(linkId);
+		const number = card && ledger.cards[card.id]?.issue?.number;
+		if (!card || !number) {
+			return null;
+		}
+		const repo = getRepoForCard(card.id);
+		return repo === fromRepo ? `#${number}` : `${repo}#${number}`;
+	}
+
+	// Rewrite links and @mentions in text that is posted to `repo`.
+	function rewriteCardText(text: string, repo: string): string {
+		return rewriteText(text, {
+			issueRef: (linkId) => getLinkedIssueRef(linkId, repo),
+			login: (username) => {
+				const member = trello.members.find(
+					(mem) => mem.username.toLowerCase() === username.toLowerCase(),
+				);
+				return member ? mapMemberId(member.id) : null;
+			},
+		});
+	}
+
+	// The text of the card that is rewritten, i.e. its description and comments.
+	function getCardTexts(card: TrelloCard): string[] {
+		return [
+			card.desc,
+			...getCommentActionsForCard(card).map((action) => action.data.text),
+		];
+	}
+
+	// Whether the card links to other cards that are migrated.
+	function linksToCards(card: TrelloCard): boolean {
+		return getCardTexts(card).some((text) =>
+			[...text.matchAll(CARD_LINK)].some(
+				(match) => match[1] && getLinkedCard(match[1]),
+			),
+		);
+	}
+
+	// Whether the card links to cards that don't have an issue yet.
+	function hasPendingLinks(card: TrelloCard): boolean {
+		return getCardTexts(card).some((text) =>
+			[...text.matchAll(CARD_LINK)].some((match) => {
+				const linked = match[1] && getLinkedCard(match[1]);
+				return linked && !ledger.cards[linked.id]?.issue;
+			}),
+		);
+	}
+
+	type TrelloAttachment = TrelloCard["attachments"][number];
+
+	// Where an attachment can be seen: re-hosted files are linked where they were uploaded to.
+	function getAttachmentUrl(attachment: TrelloAttachment): string {
+		return ledger.attachments[attachment.id] ?? attachment.url;
+	}
+
+	// Files uploaded to Trello need a Trello login, so only other images can be shown inline.
+	function canShowInline(attachment: TrelloAttachment): boolean {
+		return (
+			!!attachment.mimeType?.startsWith("image/") &&
+			(!attachment.isUpload || attachment.id in ledger.attachments)
+		);
+	}
+
+	// The files uploaded to the card that still need to be re-hosted.
+	function getAttachmentsToRehost(card: TrelloCard): TrelloAttachment[] {
+		if (!attachmentHost) {
+			return [];
+		}
+		return card.attachments.filter(
+			(attachment) =>
+				attachment.isUpload && !(attachment.id in ledger.attachments),
+		);
+	}
+
+	function getAttachmentsContentForCard(card: TrelloCard): string {
+		return card.attachments
+			.map((attachment) =>
+				canShowInline(attachment)
+					? `- ![${attachment.name}](${getAttachmentUrl(attachment)})`
+					: `- [${attachment.name}](${getAttachmentUrl(attachment)})`,
+			)
+			.join("\n");
+	}
+
+	function getCoverContentForCard(card: TrelloCard): string | null {
+		const cover = card.attachments.find(
+			(attachment) => attachment.id === card.idAttachmentCover,
+		);
+		if (!cover || !canShowInline(cover)) {
+			return null;
+		}
+		return `![${cover.name}](${getAttachmentUrl(cover)})`;
+	}
+
+	function getDescriptionForCard(card: TrelloCard): string {
+		const sections = [
+			getCoverContentForCard(card),
+			rewriteCardText(card.desc, getRepoForCard(card.id)),
+			getChecklistContentForCard(card),
+			getDatesContentForCard(card),
+			getCustomFieldsContentForCard(card),
+		].filter((section) => section);
+
+		let body = sections.join("\n\n---\n\n");
+		if (sections.length > 0) {
+			body += "\n\n---\n\n";
+		}
+		body += `> Migrated from [Trello Card](${card.url})\n`;
+		body += getAttachmentsContentForCard(card);
+
+		return body;
+	}
+
+	function getLabelsForCard(card: TrelloCard): string[] {
+		const res = [];
+		for (const trelloId of card.labels.map((label) => label.id)) {
+			const found = mappedLabels.find(
+				(label) => label.type !== "listMapped" && label.trello.id === trelloId,
+			);
+			if (found) {
+				res.push(found.github.name);
+			}
+		}
+
+		const listLabel = mappedLabels.find(
+			(label) =>
+				label.type === "listMapped" && label.trelloList.id === card.idList,
+		);
+		if (listLabel) {
+			res.push(listLabel.github.name);
+		}
+
+		// several Trello labels can map to the same GitHub label
+		return [...new Set(res)];
+	}
+
+	// The card's dates that aren't put into a project date field.
+	function getDatesContentForCard(card: TrelloCard): string | null {
+		const res = [];
+		if (card.start && !dateFields.has("start")) {
+			res.push(`**Start date:** ${card.start.slice(0, 10)}`);
+		}
+		if (card.due && !dateFields.has("due")) {
+			const complete = card.dueComplete ? " (complete)" : "";
+			res.push(`**Due date:** ${card.due.slice(0, 10)}${complete}`);
+		}
+
+		return res.length > 0 ? res.join("\n") : null;
+	}
+
+	type CustomFieldItem = TrelloCard["customFieldItems"][number];
+
+	// The value of a custom field on a card, as shown in Trello.
+	function getCustomFieldDisplay(
+		field: TrelloCustomField,
+		item: CustomFieldItem,
+	): string | null {
+		switch (field.type) {
+			case "text":
+				return item.value?.text ?? null;
+			case "number":
+				return item.value?.number ?? null;
+			case "date":
+				return item.value?.date?.slice(0, 10) ?? null;
+			case "checkbox":
+				return item.value?.checked === "true" ? "Yes" : "No";
+			case "list":
+				return (
+					field.options.find((option) => option.id === item.idValue)?.value
+						.text ?? null
+				);
+		}
+	}
+
+	// A table of the card's custom fields that aren't put into a project field.
+	function getCustomFieldsContentForCard(card: TrelloCard): string | null {
+		const res = [];
+		for (const item of card.customFieldItems) {
+			const field = trello.customFields.find(
+				(field) => field.id === item.idCustomField,
+			);
+			if (!field || customFields.has(field.id)) {
+				continue;
+			}
+			const value = getCustomFieldDisplay(field, item);
+			if (value) {
+				res.push(`| ${field.name} | ${value.replace(/\|/g, "\\|")} |`);
+			}
+		}
+
+		if (res.length < 1) {
+			return null;
+		}
+		return ["| Field | Value |", "| --- | --- |", ...res].join("\n");
+	}
+
+	function getCustomFieldValue(
+		field: TrelloCustomField,
+		githubField: ProjectFieldInfo,
+		display: string,
+	): FieldValue | null {
+		switch (field.type) {
+			case "text":
+				return { text: display };
+			case "number": {
+				const number = Number.parseFloat(display);
+				return Number.isNaN(number) ? null : { number };
+			}
+			case "date":
+				return { date: display };
+			case "checkbox":
+			case "list": {
+				const option = githubField.options?.find(
+					(option) => option.name === display,
+				);
+				return option ? { singleSelectOptionId: option.id } : null;
+			}
+		}
+	}
+
+	// Archived cards, finished cards and cards in closing lists become closed issues.
+	function getStateReasonForCard(
+		card: TrelloCard,
+	): "completed" | "not_planned" | null {
+		const listReason = closingLists.get(card.idList);
+		if (listReason) {
+			return listReason;
+		}
+		if (card.dueComplete) {
+			return "completed";
+		}
+		if (card.closed) {
+			return "not_planned";
+		}
+		return null;
+	}
+
+	// Whether a `[[lists]]` entry maps the list to anything, like a status, an iteration or a label.
+	function isListMapped(listId: string): boolean {
+		const list = trello.lists.find((l) => l.id === listId);
+		return map.lists.some(
+			(mapping) => mapping.list === listId || mapping.list === list?.name,
+		);
+	}
+
+	// The project fields to set on the card's project item, other than its status.
+	function getFieldsForCard(card: TrelloCard): CardPlan["fields"] {
+		const res: CardPlan["fields"] = [];
+		for (const [key, field] of dateFields) {
+			const date = card[key]?.slice(0, 10);
+			if (date) {
+				res.push({
+					id: field.id,
+					name: field.name,
+					value: { date },
+					display: date,
+				});
+			}
+		}
+
+		for (const item of card.customFieldItems) {
+			const mapped = customFields.get(item.idCustomField);
+			if (!mapped) {
+				continue;
+			}
+			const display = getCustomFieldDisplay(mapped.trello, item);
+			const value =
+				display && getCustomFieldValue(mapped.trello, mapped.github, display);
+			if (display && value) {
+				res.push({
+					id: mapped.github.id,
+					name: mapped.github.name,
+					value,
+					display,
+				});
+			}
+		}
+
+		for (const { field, value, display } of listFields.get(card.idList) ?? []) {
+			res.push({ id: field.id, name: field.name, value, display });
+		}
+		return res;
+	}
+
+	function getChecklistsForCard(card: TrelloCard) {
+		return card.idChecklists
+			.map((id) => trello.checklists.find((checklist) => checklist.id === id))
+			.filter((check) => check !== undefined);
+	}
+
+	function getChecklistContentForCard(card: TrelloCard): string | null {
+		const res = [];
+		const checklists = getChecklistsForCard(card);
+
+		if (checklists.length < 1 || map.checklists === "sub-issues") {
+			return null;
+		}
+
+		res.push("\n## Checklists");
+		for (const checklist of checklists) {
+			res.push(`### ${checklist.name}`);
+			for (const item of checklist.checkItems) {
+				if (item.state === "complete") {
+					res.push(`- [x] ${item.name}`);
+				} else {
+					res.push(`- [ ] ${item.name}`);
+				}
+			}
+		}
+
+		return res.join("\n");
+	}
+
+	// Each checklist item becomes a sub-issue, when enabled in the map file.
+	function getSubIssuesForCard(card: TrelloCard): SubIssuePlan[] {
+		if (map.checklists === "markdown") {
+			return [];
+		}
+		const dueField = dateFields.get("due");
+
+		const res: SubIssuePlan[] = [];
+		for (const checklist of getChecklistsForCard(card)) {
+			for (const item of checklist.checkItems) {
+				const due = item.due?.slice(0, 10);
+				let body = `> From the checklist **${checklist.name}** of [Trello Card](${card.url})\n`;
+				if (due && !dueField) {
+					body = `**Due date:** ${due}\n\n${body}`;
+				}
+
+				res.push({
+					checkItemId: item.id,
+					title: item.name,
+					body,
+					assignees: item.idMember ? mapMemberIds([item.idMember]) : [],
+					closed: item.state === "complete",
+					fields:
+						due && dueField
+							? [
+									{
+										id: dueField.id,
+										name: dueField.name,
+										value: { date: due },
+										display: due,
+									},
+								]
+							: [],
+				});
+			}
+		}
+		return res;
+	}
+
+	type CardAction = Extract<(typeof trello.actions)[number], { type: string }>;
+
+	// The card's actions of the given types, oldest first.
+	function getActionsForCard<T extends CardAction["type"]>(
+		card: TrelloCard,
+		types: T[],
+	): (CardAction & { type: T })[] {
+		const actions = trello.actions.filter(
+			(action): action is CardAction & { type: T } =>
+				"type" in action &&
+				types.some((type) => type === action.type) &&
+				action.data.card.id === card.id,
+		);
+		actions.sort((a, b) => a.date.getTime() - b.date.getTime());
+		return actions;
+	}
+
+	// The card's comments, oldest first.
+	function getCommentActionsForCard(card: TrelloCard) {
+		return getActionsForCard(card, ["commentCard"]);
+	}
+
+	// How a member is shown in the history. Even mapped members are put in backticks,
+	// so the history doesn't notify everyone who ever touched a card.
+	function renderHistoryMember(trelloMemberId: string, fallback: string) {
+		return `\`@${mapMemberId(trelloMemberId) ?? fallback}\``;
+	}
+
+	// A collapsed table of when the card was created, moved, archived and who was added to it.
+	function getHistoryForCard(card: TrelloCard): string | null {
+		const res = [];
+		for (const action of getActionsForCard(card, [
+			"createCard",
+			"copyCard",
+			"updateCard",
+			"addMemberToCard",
+			"removeMemberFromCard",
+		])) {
+			const { data } = action;
+			let event: string | null = null;
+			switch (action.type) {
+				case "createCard":
+					event = `Created the card in **${data.list?.name}**`;
+					break;
+				case "copyCard":
+					event = `Copied the card from **${data.cardSource?.name}** into **${data.list?.name}**`;
+					break;
+				case "updateCard":
+					if (data.listBefore && data.listAfter) {
+						event = `Moved the card from **${data.listBefore.name}** to **${data.listAfter.name}**`;
+					} else if (data.old?.closed === false && data.card.closed) {
+						event = "Archived the card";
+					} else if (data.old?.closed && data.card.closed === false) {
+						event = "Restored the card";
+					}
+					break;
+				case "addMemberToCard":
+				case "removeMemberFromCard":
+					if (data.member) {
+						const verb =
+							action.type === "addMemberToCard" ? "Added" : "Removed";
+						event = `${verb} ${renderHistoryMember(data.member.id, data.member.name)}`;
+					}
+					break;
+			}
+			if (event) {
+				const member = renderHistoryMember(
+					action.memberCreator.id,
+					action.memberCreator.username,
+				);
+				res.push(
+					`| ${action.date.toISOString().slice(0, 10)} | ${member} | ${event.replace(/\|/g, "\\|")} |`,
+				);
+			}
+		}
+
+		if (res.length < 1) {
+			return null;
+		}
+		return [
+			"<details>",
+			"<summary>Trello history</summary>",
+			"",
+			"| Date | Member | Event |",
+			"| --- | --- | --- |",
+			...res,
+			"",
+			"</details>",
+		].join("\n");
+	}
+
+	// The member's GitHub login, if they gave a token to post as them.
+	function getAuthor(trelloMemberId: string): string | null {
+		const login = mapMemberId(trelloMemberId);
+		return login && userOctokits.has(login) ? login : null;
+	}
+
+	// The client to post as `author`, or as the user running the migration.
+	function clientFor(author: string | null): Octokit {
+		return (author && userOctokits.get(author)) || octokit;
+	}
+
+	// Whoever created (or copied) the card.
+	function getAuthorForCard(card: TrelloCard): string | null {
+		const [created] = getActionsForCard(card, ["createCard", "copyCard"]);
+		return created ? getAuthor(created.memberCreator.id) : null;
+	}
+
+	function getCommentsForCard(card: TrelloCard): CommentPlan[] {
+		const res: CommentPlan[] = [];
+		for (const action of getCommentActionsForCard(card)) {
+			const postedAt = action.date.toISOString().replace(/\.\d{3}Z$/, "Z");
+			const text = rewriteCardText(action.data.text, getRepoForCard(card.id));
+
+			const author = getAuthor(action.memberCreator.id);
+			if (author) {
+				res.push({
+					trelloId: action.id,
+					body: `${text}\n\n<sub>Posted on Trello at ${postedAt}</sub>`,
+					author,
+				});
+				continue;
+			}
+
+			const member = mapMemberId(action.memberCreator.id);
+			const memberString = member
+				? `@${member}`
+				: `\`@${action.memberCreator.username}\``;
+
+			const header = `## ${memberString} • ${postedAt}`;
+			res.push({
+				trelloId: action.id,
+				body: `${header}\n${text}`,
+				author: null,
+			});
+		}
+
+		return res;
+	}
+
+	async function addIssueToProject(issueNodeId: string) {
+		invariant(
+			projectInfo,
+			"projectInfo must be set to call `addIssueToProject()`.",
+		);
+		const res = await octokit.graphql(`
+		mutation {
+			addProjectV2ItemById(input: {projectId: "${projectInfo.projectId}" contentId: "${issueNodeId}"}) {
+				item {
+					id
+				}
+			}
+		}`);
+
+		// the caller saves the ledger along with the new item
+		ledger.project = projectInfo.projectId;
+		// biome-ignore lint/suspicious/noExplicitAny: The GraphQL API is not typed, but accessing results mirrors the query.
+		return (res as any).addProjectV2ItemById.item.id as string;
+	}
+
+	async function setItemFieldValue(
+		itemId: string,
+		fieldId: string,
+		value: FieldValue,
+	) {
+		invariant(
+			projectInfo,
+			"projectInfo must be set to call `setItemFieldValue()`.",
+		);
+		await octokit.graphql(
+			`
+			mutation($projectId: ID!, $itemId: ID!, $fieldId: ID!, $value: ProjectV2FieldValue!) {
+				updateProjectV2ItemFieldValue(
+					input: {projectId: $projectId, itemId: $itemId, fieldId: $fieldId, value: $value}
+				) {
+					projectV2Item {
+						id
+					}
+				}
+			}`,
+			{ projectId: projectInfo.projectId, itemId, fieldId, value },
+		);
+	}
+
+	// Move the item just below `afterId`, or to the top when it's null.
+	async function setItemPosition(itemId: string, afterId: string | null) {
+		invariant(
+			projectInfo,
+			"projectInfo must be set to call `setItemPosition()`.",
+		);
+		await octokit.graphql(
+			`
+			mutation($projectId: ID!, $itemId: ID!, $afterId: ID) {
+				updateProjectV2ItemPosition(
+					input: {projectId: $projectId, itemId: $itemId, afterId: $afterId}
+				) {
+					clientMutationId
+				}
+			}`,
+			{ projectId: projectInfo.projectId, itemId, afterId },
+		);
+	}
+
+	async function setIssueStatus(
+		itemId: string,
+		statusId: string,
+		statusName: string,
+	) {
+		invariant(
+			projectInfo,
+			"projectInfo must be set to call `setIssueStatus()`.",
+		);
+		try {
+			const result = await octokit.graphql(`
+				mutation {
+					updateProjectV2ItemFieldValue(
+						input: {projectId: "${projectInfo.projectId}", itemId: "${itemId}", fieldId: "${projectInfo.statusFieldId}", value: {singleSelectOptionId: "${statusId}"}}
+					) {
+						projectV2Item {
+							id
+							fieldValueByName(name: "Status") {
+								... on ProjectV2ItemFieldSingleSelectValue {
+									name
+								}
+							}
+						}
+					}
+				}`);
+			// biome-ignore lint/suspicious/noExplicitAny: The GraphQL API is not typed
+			const updatedStatus = (result as any).updateProjectV2ItemFieldValue
+				.projectV2Item.fieldValueByName?.name;
+			if (updatedStatus) {
+				ui.log.info(`✓ Status set to: ${chalk.green(updatedStatus)}`);
+			}
+		} catch (error) {
+			ui.log.error(
+				`Failed to set status to ${chalk.yellow(statusName)}: ${error}`,
+			);
+			throw error;
+		}
+	}
+
+	async function getExistingProjectItems() {
+		invariant(
+			projectInfo,
+			"projectInfo must be set to call `getExistingProjectItems()`.",
+		);
+
+		const queryTarget = map.repo.owner;
+		const ownerType =
+			typeof queryTarget === "string" ? "user" : queryTarget.type;
+
+		const items: Array<{
+			id: string;
+			issueNumber: number;
+			issueTitle: string;
+			currentStatus: string | null;
+		}> = [];
+
+		let hasNextPage = true;
+		let cursor: string | null = null;
+
+		while (hasNextPage) {
+			const query = `
+				query {
+					${ownerType}(login: "${typeof queryTarget === "string" ? queryTarget : queryTarget.login}") {
+						projectV2(number: ${map.project}) {
+							items(first: 100${cursor ? `, after: "${cursor}"` : ""}) {
+								pageInfo {
+									hasNextPage
+									endCursor
+								}
+								nodes {
+									id
+									content {
+										... on Issue {
+											number
+											title
+										}
+									}
+									fieldValueByName(name: "Status") {
+										... on ProjectV2ItemFieldSingleSelectValue {
+											name
+										}
+									}
+								}
+							}
+						}
+					}
+				}
+			`;
+
+			// biome-ignore lint/suspicious/noExplicitAny: The GraphQL API is not typed
+			const response: any = await octokit.graphql(query);
+			const itemsData = response[ownerType].projectV2.items;
+
+			for (const item of itemsData.nodes) {
+				if (item.content && item.content.number) {
+					items.push({
+						id: item.id,
+						issueNumber: item.content.number,
+						issueTitle: item.content.title,
+						currentStatus: item.fieldValueByName?.name || null,
+					});
+				}
+			}
+
+			hasNextPage = itemsData.pageInfo.hasNextPage;
+			cursor = itemsData.pageInfo.endCursor;
+		}
+
+		return items;
+	}
+
+	// Work out which existing issues in the project need their status updated.
+	// `sync` finds the issues of cards through the ledger instead.
+	const statusUpdates: StatusUpdatePlan[] = [];
+	if (mode === "migrate" && projectInfo && validStatusFields.size > 0) {
+		const existingSpin = ui.spinner({ indicator: "timer" });
+		existingSpin.start("Checking existing project items...");
+
+		const existingItems = await getExistingProjectItems();
+		existingSpin.stop(
+			`Found ${chalk.blue(existingItems.length)} existing items in project`,
+		);
+
+		for (const item of existingItems) {
+			// Try to find the corresponding Trello card by matching title
+			const trelloCard = trello.cards.find((card) => {
+				// Simple match by title - you might want to make this more sophisticated
+				return card.name === item.issueTitle;
+			});
+
+			if (!trelloCard) {
+				// Issue doesn't match any Trello card, skip it
+				continue;
+			}
+
+			// Get the expected status for this card based on its Trello list
+			const expectedStatus = validStatusFields.get(trelloCard.idList);
+
+			// Only update items whose list has a status mapping they don't match
+			if (expectedStatus && item.currentStatus !== expectedStatus.name) {
+				statusUpdates.push({
+					itemId: item.id,
+					issueNumber: item.issueNumber,
+					title: item.issueTitle,
+					from: item.currentStatus,
+					to: { id: expectedStatus.id, name: expectedStatus.name },
+				});
+			}
+		}
+	}
+
+	// Whether a card changed on Trello since its issue was last written
+	function isCardChanged(card: TrelloCard): boolean {
+		const entry = ledger.cards[card.id];
+		if (!entry?.issue) {
+			return false;
+		}
+		if (!entry.lastActivity || !card.dateLastActivity) {
+			return true;
+		}
+		return Date.parse(card.dateLastActivity) > Date.parse(entry.lastActivity);
+	}
+
+	// The milestone of the card's due date (see `milestones` in the map file), or else
+	// of its list. Its number is unknown when it's created by this run.
+	function getMilestoneForCard(
+		card: TrelloCard,
+	): { number: number; title: string } | { title: string } | null {
+		const repo = getRepoForCard(card.id);
+		const due =
+			map.milestones && card.due && getDueMilestone(map.milestones, card.due);
+		const dueMilestone =
+			due &&
+			(dueMilestones.get(milestoneKey(repo, due.title)) ??
+				milestonesToCreate.find(
+					(milestone) =>
+						milestone.repo === repo && milestone.title === due.title,
+				));
+		return (
+			dueMilestone ||
+			(validMilestones.get(milestoneKey(repo, card.idList)) ??
+				milestonesToCreate.find(
+					(milestone) =>
+						milestone.repo === repo && milestone.lists.includes(card.idList),
+				) ??
+				null)
+		);
+	}
+
+	function planCard(card: TrelloCard): CardPlan {
+		const cardList = trello.lists.find((list) => list.id === card.idList);
+		const milestone = getMilestoneForCard(card);
+		const status =
+			validStatusFields.get(card.idList) ??
+			statusFieldsToCreate.find((s) => s.trelloListId === card.idList);
+
+		return {
+			trello: {
+				id: card.id,
+				url: card.url,
+				list: cardList?.name ?? card.idList,
+			},
+			issueNumber: ledger.cards[card.id]?.issue?.number ?? null,
+			update: mode === "sync" && isCardChanged(card),
+			repo: getRepoForCard(card.id),
+			title: card.name,
+			body: getDescriptionForCard(card),
+			labels: getLabelsForCard(card),
+			assignees: mapMemberIds(card.idMembers),
+			milestone: milestone
+				? {
+						number: "number" in milestone ? milestone.number : null,
+						title: milestone.title,
+					}
+				: null,
+			stateReason: getStateReasonForCard(card),
+			status: status
+				? { id: "id" in status ? status.id : null, name: status.name }
+				: null,
+			fields: getFieldsForCard(card),
+			author: getAuthorForCard(card),
+			comments: getCommentsForCard(card),
+			history: map.history ? getHistoryForCard(card) : null,
+			subIssues: getSubIssuesForCard(card),
+			attachments: getAttachmentsToRehost(card).map((attachment) => ({
+				id: attachment.id,
+				name: attachment.name,
+				url: attachment.url,
+				fileName: (attachment.fileName ?? attachment.name).replace(
+					/[/\\]/g,
+					"-",
+				),
+			})),
+		};
+	}
+
+	const cardPlans = trello.cards.map(planCard);
+	for (const card of cardPlans) {
+		const entry = ledger.cards[card.trello.id];
+		if (entry) {
+			recordPostedComments(entry, card);
+		}
+	}
+	const remainingCards = cardPlans.filter(
+		(card) =>
+			card.update ||
+			!isCardMigrated(ledger.cards[card.trello.id], card, !!projectInfo),
+	);
+
+	// A sync closes the issues of cards that were archived or moved to a skipped list
+	// since they were migrated, as they aren't updated anymore.
+	const issuesToClose: IssueClosePlan[] =
+		mode === "sync"
+			? skippedCards.flatMap(({ card, reason }) => {
+					const entry = ledger.cards[card.id];
+					if (!entry?.issue || entry.closed) {
+						return [];
+					}
+					return [
+						{
+							cardId: card.id,
+							repo: getRepoForCard(card.id),
+							issueNumber: entry.issue.number,
+							title: card.name,
+							reason,
+							stateReason: getStateReasonForCard(card) ?? "not_planned",
+						},
+					];
+				})
+			: [];
+
+	const plan: MigrationPlan = {
+		board: trello.name,
+		repo: repoName,
+		project: projectInfo?.projectName ?? null,
+		labelsToCreate: labelsToCreate.map((label) => ({
+			...label.github,
+			repo: label.repo,
+		})),
+		statusesToCreate: statusOptionsToCreate.map(({ name, color }) => ({
+			name,
+			color,
+		})),
+		milestonesToCreate: milestonesToCreate.map(({ title, dueOn, repo }) => ({
+			title,
+			dueOn,
+			repo,
+		})),
+		statusUpdates,
+		issuesToClose,
+		alreadyMigrated: cardPlans.length - remainingCards.length,
+		cards: remainingCards,
+	};
+
+	ui.event("plan", {
+		board: plan.board,
+		repo: plan.repo,
+		project: plan.project,
+		cards: plan.cards.length,
+		alreadyMigrated: plan.alreadyMigrated,
+		labelsToCreate: plan.labelsToCreate.length,
+		statusUpdates: plan.statusUpdates.length,
+		issuesToClose: plan.issuesToClose.length,
+		dryRun: !!opts.dryRun,
+	});
+
+	if (plan.alreadyMigrated > 0) {
+		ui.log.info(
+			mode === "sync"
+				? `Skipping ${chalk.blue(plan.alreadyMigrated)} cards that didn't change (see ${chalk.dim(statePath)})`
+				: `Skipping ${chalk.blue(plan.alreadyMigrated)} cards that were already migrated (see ${chalk.dim(statePath)})`,
+		);
+	}
+
+	if (opts.dryRun) {
+		if (plan.statusUpdates.length > 0) {
+			ui.note(
+				plan.statusUpdates
+					.map(
+						(update) =>
+							`#${chalk.blue(update.issueNumber)} ${chalk.dim(update.title.slice(0, 50))}: ${chalk.yellow(update.from ?? "no status")} -> ${chalk.green(update.to.name)}`,
+					)
+					.join("\n"),
+				"Status updates for existing items:",
+			);
+		}
+		if (plan.issuesToClose.length > 0) {
+			ui.note(
+				plan.issuesToClose
+					.map(
+						(close) =>
+							`#${chalk.blue(close.issueNumber)} ${chalk.dim(close.title.slice(0, 50))} (${close.reason})`,
+					)
+					.join("\n"),
+				"Issues to close:",
+			);
+		}
+		ui.note(
+			renderPlanSummary(plan),
+			`Issues to ${mode === "sync" ? "create or update" : "create"} (${chalk.blue(plan.cards.length)}):`,
+		);
+
+		if (planOutput) {
+			const format: PlanFormat = opts.planFormat ?? inferPlanFormat(planOutput);
+			await Bun.write(planOutput, renderPlan(plan, format));
+			ui.log.success(`Wrote migration plan to ${chalk.green(planOutput)}`);
+		}
+
+		return {
+			board: trello.name,
+			repo: repoName,
+			planned: plan.cards.length,
+			created: 0,
+			updated: 0,
+			resumed: 0,
+			failed: 0,
+		};
+	}
+
+	if (plan.statusUpdates.length > 0) {
+		ui.log.info("Updating statuses for existing items...");
+		const failures = await runConcurrently(
+			plan.statusUpdates,
+			opts.concurrency,
+			async (update) => {
+				ui.log.info(
+					`Updating issue #${chalk.blue(update.issueNumber)} "${chalk.dim(update.title.slice(0, 50))}..." from ${chalk.yellow(update.from || "no status")} to ${chalk.green(update.to.name)}`,
+				);
+				await setIssueStatus(update.itemId, update.to.id, update.to.name);
+			},
+		);
+		ui.log.info(
+			`Updated ${chalk.green(plan.statusUpdates.length - failures.length)} existing items`,
+		);
+		if (failures.length > 0) {
+			fail(
+				`Failed to update ${chalk.red(failures.length)} existing items. Re-run the same command to retry them.`,
+			);
+		}
+	}
+
+	if (plan.issuesToClose.length > 0) {
+		const failures = await runConcurrently(
+			plan.issuesToClose,
+			opts.concurrency,
+			async (close) => {
+				await octokit.request(
+					"PATCH /repos/{owner}/{repo}/issues/{issue_number}",
+					{
+						...repoRequest(close.repo),
+						issue_number: close.issueNumber,
+						state: "closed",
+						state_reason: close.stateReason,
+					},
+				);
+				const entry = getLedgerEntry(ledger, close.cardId);
+				entry.closed = true;
+				saveLedger(statePath, ledger);
+				ui.event("issue_closed", {
+					card: close.cardId,
+					issue: close.issueNumber,
+				});
+			},
+		);
+		ui.log.info(
+			`Closed ${chalk.green(plan.issuesToClose.length - failures.length)} issues of cards that were archived or skipped`,
+		);
+		if (failures.length > 0) {
+			fail(
+				`Failed to close ${chalk.red(failures.length)} issues. Re-run the same command to retry them.`,
+			);
+		}
+	}
+
+	const spin = ui.spinner({ indicator: "timer" });
+	const action = mode === "sync" ? "Syncing" : "Creating";
+	spin.start(`${action} ${chalk.blue(plan.cards.length)} issues`);
+
+	// Debug: Show the validStatusFields mapping
+	if (projectInfo && validStatusFields.size > 0) {
+		ui.log.info("Status field mappings:");
+		for (const [listId, statusOption] of validStatusFields.entries()) {
+			const list = trello.lists.find((l) => l.id === listId);
+			ui.log.info(
+				`  ${chalk.cyan(list?.name || listId)} -> ${chalk.green(statusOption.name)}`,
+			);
+		}
+	}
+
+	// Set the project fields of an item that differ from what the ledger recorded.
+	async function setItemFields(
+		itemId: string,
+		recorded: Record<string, string>,
+		fields: CardPlan["fields"],
+	) {
+		for (const field of fields) {
+			const value = JSON.stringify(field.value);
+			if (recorded[field.id] !== value) {
+				await setItemFieldValue(itemId, field.id, field.value);
+				recorded[field.id] = value;
+				saveLedger(statePath, ledger);
+			}
+		}
+	}
+
+	async function migrateSubIssue(
+		repo: string,
+		parentNumber: number,
+		subIssue: SubIssuePlan,
+		entry: LedgerEntry,
+	) {
+		entry.subIssues[subIssue.checkItemId] ??= {
+			linked: false,
+			closed: false,
+			fields: {},
+		};
+		const subEntry = entry.subIssues[subIssue.checkItemId];
+		invariant(subEntry, "the sub-issue entry was just created");
+
+		if (!subEntry.issue) {
+			const issue = await octokit.request("POST /repos/{owner}/{repo}/issues", {
+				...repoRequest(repo),
+				title: subIssue.title,
+				body: subIssue.body,
+				assignees: subIssue.assignees,
+			});
+			subEntry.issue = {
+				number: issue.data.number,
+				id: issue.data.id,
+				nodeId: issue.data.node_id,
+			};
+			saveLedger(statePath, ledger);
+		}
+
+		if (!subEntry.linked) {
+			await octokit.request(
+				"POST /repos/{owner}/{repo}/issues/{issue_number}/sub_issues",
+				{
+					...repoRequest(repo),
+					issue_number: parentNumber,
+					sub_issue_id: subEntry.issue.id,
+				},
+			);
+			subEntry.linked = true;
+			saveLedger(statePath, ledger);
+		}
+
+		if (projectInfo) {
+			if (!subEntry.projectItemId) {
+				subEntry.projectItemId = await addIssueToProject(subEntry.issue.nodeId);
+				saveLedger(statePath, ledger);
+			}
+			await setItemFields(
+				subEntry.projectItemId,
+				subEntry.fields,
+				subIssue.fields,
+			);
+		}
+
+		if (subIssue.closed && !subEntry.closed) {
+			await octokit.request(
+				"PATCH /repos/{owner}/{repo}/issues/{issue_number}",
+				{
+					...repoRequest(repo),
+					issue_number: subEntry.issue.number,
+					state: "closed",
+					state_reason: "completed",
+				},
+			);
+			subEntry.closed = true;
+			saveLedger(statePath, ledger);
+		}
+	}
+
+	async function rehostAttachments(card: CardPlan) {
+		invariant(attachmentHost, "attachments are only re-hosted with a host");
+		for (const attachment of card.attachments) {
+			if (attachment.id in ledger.attachments) {
+				continue;
+			}
+			const file = await downloadTrelloAttachment(
+				attachment.url,
+				trelloCredentials,
+			);
+			ledger.attachments[attachment.id] = await attachmentHost.upload(
+				attachment.id,
+				attachment.fileName,
+				file,
+			);
+			saveLedger(statePath, ledger);
+		}
+	}
+
+	async function migrateCard(card: CardPlan) {
+		const entry = getLedgerEntry(ledger, card.trello.id);
+		const trelloCard = trello.cards.find(({ id }) => id === card.trello.id);
+		invariant(trelloCard, "every planned card comes from the board");
+		invariant(
+			card.milestone?.number !== null,
+			"new milestones are created before migrating",
+		);
+
+		if (!entry.issue) {
+			let body = card.body;
+			if (card.attachments.length > 0) {
+				await rehostAttachments(card);
+				body = getDescriptionForCard(trelloCard);
+			}
+
+			const issue = await clientFor(card.author).request(
+				"POST /repos/{owner}/{repo}/issues",
+				{
+					...repoRequest(card.repo),
+					title: card.title,
+					body,
+					labels: card.labels,
+					assignees: card.assignees,
+					milestone: card.milestone?.number,
+				},
+			);
+			entry.issue = { number: issue.data.number, nodeId: issue.data.node_id };
+			if (card.repo !== ledger.repo) {
+				entry.repo = card.repo;
+			}
+			entry.linksPending = linksToCards(trelloCard);
+			saveLedger(statePath, ledger);
+			ui.event("issue_created", {
+				card: card.trello.id,
+				issue: issue.data.number,
+				url: issue.data.html_url,
+			});
+		} else if (card.update) {
+			let body = card.body;
+			if (card.attachments.length > 0) {
+				await rehostAttachments(card);
+				body = getDescriptionForCard(trelloCard);
+			}
+
+			// The issue may have been closed by an earlier run, so its state is left alone
+			const issue = await octokit.request(
+				"PATCH /repos/{owner}/{repo}/issues/{issue_number}",
+				{
+					...repoRequest(card.repo),
+					issue_number: entry.issue.number,
+					title: card.title,
+					body,
+					labels: card.labels,
+					assignees: card.assignees,
+					milestone: card.milestone?.number ?? null,
+				},
+			);
+			ui.event("issue_updated", {
+				card: card.trello.id,
+				issue: issue.data.number,
+				url: issue.data.html_url,
+			});
+		}
+
+		// only post the comments that weren't posted by an earlier run
+		for (const comment of card.comments) {
+			if (entry.trelloComments[comment.trelloId] !== undefined) {
+				continue;
+			}
+			const res = await clientFor(comment.author).request(
+				"POST /repos/{owner}/{repo}/issues/{issue_number}/comments",
+				{
+					...repoRequest(card.repo),
+					issue_number: entry.issue.number,
+					body: comment.body,
+				},
+			);
+			entry.comments.push(res.data.id);
+			entry.trelloComments[comment.trelloId] = res.data.id;
+			saveLedger(statePath, ledger);
+		}
+
+		if (card.history && entry.history === undefined) {
+			const res = await octokit.request(
+				"POST /repos/{owner}/{repo}/issues/{issue_number}/comments",
+				{
+					...repoRequest(card.repo),
+					issue_number: entry.issue.number,
+					body: card.history,
+				},
+			);
+			entry.history = res.data.id;
+			saveLedger(statePath, ledger);
+		} else if (card.history && card.update && entry.history !== undefined) {
+			await octokit.request(
+				"PATCH /repos/{owner}/{repo}/issues/comments/{comment_id}",
+				{
+					...repoRequest(card.repo),
+					comment_id: entry.history,
+					body: card.history,
+				},
+			);
+		}
+
+		if (projectInfo) {
+			if (!entry.projectItemId) {
+				entry.projectItemId = await addIssueToProject(entry.issue.nodeId);
+				saveLedger(statePath, ledger);
+			}
+
+			if (card.status) {
+				invariant(card.status.id, "new statuses are created before migrating");
+				if (entry.statusId !== card.status.id) {
+					ui.log.info(
+						`Setting "${chalk.blue(card.title)}" (from list "${chalk.cyan(card.trello.list)}") to status ${chalk.green(card.status.name)}`,
+					);
+					await setIssueStatus(
+						entry.projectItemId,
+						card.status.id,
+						card.status.name,
+					);
+					entry.statusId = card.status.id;
+					saveLedger(statePath, ledger);
+				}
+			} else if (!isListMapped(trelloCard.idList)) {
+				// lists that set an iteration or another field instead are left without a status
+				ui.log.warn(
+					`No status mapping found for card "${chalk.yellow(card.title)}" in list "${chalk.yellow(card.trello.list)}"`,
+				);
+			}
+
+			await setItemFields(entry.projectItemId, entry.fields, card.fields);
+		}
+
+		for (const subIssue of card.subIssues) {
+			await migrateSubIssue(card.repo, entry.issue.number, subIssue, entry);
+		}
+
+		if (card.stateReason && !entry.closed) {
+			await octokit.request(
+				"PATCH /repos/{owner}/{repo}/issues/{issue_number}",
+				{
+					...repoRequest(card.repo),
+					issue_number: entry.issue.number,
+					state: "closed",
+					state_reason: card.stateReason,
+				},
+			);
+			entry.closed = true;
+			saveLedger(statePath, ledger);
+		}
+
+		entry.lastActivity = trelloCard.dateLastActivity;
+		saveLedger(statePath, ledger);
+	}
+
+	async function rewriteLinks(card: TrelloCard) {
+		const entry = ledger.cards[card.id];
+		invariant(entry?.issue, "only migrated cards have links to rewrite");
+		const request = repoRequest(getRepoForCard(card.id));
+
+		await clientFor(getAuthorForCard(card)).request(
+			"PATCH /repos/{owner}/{repo}/issues/{issue_number}",
+			{
+				...request,
+				issue_number: entry.issue.number,
+				body: getDescriptionForCard(card),
+			},
+		);
+		const actions = getCommentActionsForCard(card);
+		const comments = getCommentsForCard(card);
+		for (const [i, action] of actions.entries()) {
+			const comment = comments[i];
+			const commentId = entry.trelloComments[action.id];
+			if (
+				comment &&
+				commentId !== undefined &&
+				action.data.text.match(CARD_LINK)
+			) {
+				await clientFor(comment.author).request(
+					"PATCH /repos/{owner}/{repo}/issues/comments/{comment_id}",
+					{ ...request, comment_id: commentId, body: comment.body },
+				);
+			}
+		}
+		entry.linksPending = false;
+		saveLedger(statePath, ledger);
+	}
+
+	function reportCard(
+		card: TrelloCard,
+		skipped: SkipReason | null,
+		error: unknown,
+	): ReportCard {
+		const entry = skipped ? undefined : ledger.cards[card.id];
+		const repo = getRepoForCard(card.id);
+		const status = skipped ? null : planCard(card).status;
+		return {
+			trello: {
+				id: card.id,
+				name: card.name,
+				url: card.url,
+				list:
+					trello.lists.find((list) => list.id === card.idList)?.name ??
+					card.idList,
+			},
+			issue: entry?.issue
+				? {
+						number: entry.issue.number,
+						url: `https://github.com/${repo}/issues/${entry.issue.number}`,
+					}
+				: null,
+			projectItemId: entry?.projectItemId ?? null,
+			status: status?.name ?? null,
+			listMapped: isListMapped(card.idList),
+			unmappedMembers: card.idMembers
+				.filter((memberId) => mapMemberId(memberId) === null)
+				.map((memberId) => {
+					const member = trello.members.find((mem) => mem.id === memberId);
+					return member ? `${member.fullName} (${member.username})` : memberId;
+				}),
+			skippedLabels: card.labels
+				.filter((label) =>
+					skippedLabels.some((skipped) => skipped.trello.id === label.id),
+				)
+				.map((label) => label.name || label.color),
+			skipped,
+			error:
+				error === undefined
+					? null
+					: error instanceof Error
+						? error.message
+						: String(error),
+		};
+	}
+
+	// What this run left behind, card by card (see `--report`)
+	function getReport(
+		failures: { item: CardPlan; error: unknown }[],
+	): MigrationReport {
+		const cards = trello.cards.map((card) =>
+			reportCard(
+				card,
+				null,
+				failures.findLast((failure) => failure.item.trello.id === card.id)
+					?.error,
+			),
+		);
+		for (const { card, reason } of skippedCards) {
+			cards.push(reportCard(card, reason, undefined));
+		}
+		return {
+			board: trello.name,
+			repo: repoName,
+			project: projectInfo?.projectName ?? null,
+			skippedLabels: skippedLabels.map(
+				(label) => label.trello.name || label.trello.color,
+			),
+			cards,
+		};
+	}
+
+	// counted as the cards finish, so that failed cards aren't counted
+	let createdCount = 0;
+	let updatedCount = 0;
+	let resumedCount = 0;
+	let finishedCount = 0;
+	const failures = await runConcurrently(
+		plan.cards,
+		opts.concurrency,
+		async (card) => {
+			await migrateCard(card);
+			if (card.update) {
+				updatedCount++;
+			} else if (card.issueNumber) {
+				resumedCount++;
+			} else {
+				createdCount++;
+			}
+			finishedCount++;
+			ui.event("card_migrated", {
+				card: card.trello.id,
+				title: card.title,
+				issue: ledger.cards[card.trello.id]?.issue?.number,
+			});
+			spin.message(
+				`${action} ${chalk.blue(plan.cards.length)} issues • issue ${chalk.blue(finishedCount)}/${chalk.blue(plan.cards.length)}`,
+			);
+		},
+	);
+
+	// Links between cards can only point at issues once both exist, so the text
+	// of issues that link to other cards is rewritten after they're all created.
+	const cardsWithLinks = trello.cards.filter(
+		(card) => ledger.cards[card.id]?.linksPending && !hasPendingLinks(card),
+	);
+	spin.message(
+		`Rewriting links in ${chalk.blue(cardsWithLinks.length)} issues`,
+	);
+	failures.push(
+		...(
+			await runConcurrently(cardsWithLinks, opts.concurrency, rewriteLinks)
+		).map(({ item, error }) => ({ item: planCard(item), error })),
+	);
+
+	// Each item is moved below the one before it, so every Status column
+	// lists its items in the same order as the Trello list.
+	if (projectInfo) {
+		spin.message("Ordering project items");
+		let previousItemId: string | null = null;
+		for (const card of trello.cards) {
+			const entry = ledger.cards[card.id];
+			if (!entry?.projectItemId) {
+				continue;
+			}
+			if (entry.positionAfter !== previousItemId) {
+				try {
+					await setItemPosition(entry.projectItemId, previousItemId);
+					entry.positionAfter = previousItemId;
+					saveLedger(statePath, ledger);
+				} catch (error) {
+					failures.push({ item: planCard(card), error });
+				}
+			}
+			previousItemId = entry.projectItemId;
+		}
+	}
+
+	spin.stop(
+		`Created ${chalk.blue(createdCount)} issues${updatedCount > 0 ? `, updated ${chalk.blue(updatedCount)}` : ""}${resumedCount > 0 ? `, finished ${chalk.blue(resumedCount)} from an earlier run` : ""}`,
+	);
+
+	if (failures.length > 0) {
+		for (const { item: card, error } of failures) {
+			ui.event("card_failed", {
+				card: card.trello.id,
+				title: card.title,
+				error: error instanceof Error ? error.message : String(error),
+			});
+			ui.log.error(
+				`Failed to migrate "${chalk.yellow(card.title)}": ${error instanceof Error ? error.message : error}`,
+			);
+		}
+	}
+	if (reportOutput) {
+		const format = opts.reportFormat ?? inferReportFormat(reportOutput);
+		await Bun.write(reportOutput, renderReport(getReport(failures), format));
+		ui.log.success(`Wrote the report to ${chalk.green(reportOutput)}`);
+	}
+
+	return {
+		board: trello.name,
+		repo: repoName,
+		planned: plan.cards.length,
+		created: createdCount,
+		updated: updatedCount,
+		resumed: resumedCount,
+		failed: failures.length,
+	};
+}
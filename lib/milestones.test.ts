@@ -0,0 +1,64 @@
+import { describe, expect, test } from "bun:test";
+import { getDueMilestone } from "./milestones";
+
+describe("getDueMilestone", () => {
+	describe("by month", () => {
+		const byMonth = { by: "month", sprint_length: 14, create: false } as const;
+
+		test("is named after the month and due on its last day", () => {
+			expect(getDueMilestone(byMonth, "2024-02-15T12:00:00.000Z")).toEqual({
+				title: "2024-02",
+				dueOn: "2024-02-29",
+				description: "Trello cards due from 2024-02-01 to 2024-02-29",
+			});
+		});
+
+		test("fills in a custom title", () => {
+			expect(
+				getDueMilestone(
+					{ ...byMonth, title: "{month}/{year} ({start} to {end}) {other}" },
+					"2023-12-31T23:59:00.000Z",
+				)?.title,
+			).toBe("12/2023 (2023-12-01 to 2023-12-31) {other}");
+		});
+	});
+
+	describe("by sprint", () => {
+		const bySprint = {
+			by: "sprint",
+			sprint_start: "2024-01-01",
+			sprint_length: 14,
+			create: false,
+		} as const;
+
+		test("counts sprints from `sprint_start`", () => {
+			expect(getDueMilestone(bySprint, "2024-01-20T09:00:00.000Z")).toEqual({
+				title: "Sprint 2",
+				dueOn: "2024-01-28",
+				description: "Trello cards due from 2024-01-15 to 2024-01-28",
+			});
+		});
+
+		test("puts the last day of a sprint in that sprint", () => {
+			expect(getDueMilestone(bySprint, "2024-01-14T23:00:00.000Z")?.title).toBe(
+				"Sprint 1",
+			);
+			expect(getDueMilestone(bySprint, "2024-01-15T00:00:00.000Z")?.title).toBe(
+				"Sprint 2",
+			);
+		});
+
+		test("fills in a custom title", () => {
+			expect(
+				getDueMilestone(
+					{ ...bySprint, sprint_length: 7, title: "Week {n} ({start})" },
+					"2024-01-08T00:00:00.000Z",
+				)?.title,
+			).toBe("Week 2 (2024-01-08)");
+		});
+
+		test("is null before the first sprint", () => {
+			expect(getDueMilestone(bySprint, "2023-12-31T12:00:00.000Z")).toBeNull();
+		});
+	});
+});
@@ -0,0 +1,67 @@
+import invariant from "tiny-invariant";
+import type { Map as MapFile } from "./schemas";
+
+type MilestoneGrouping = NonNullable<MapFile["milestones"]>;
+
+// The milestone cards are put in by their due date (see `milestones` in the map file).
+export type DueMilestone = {
+	title: string;
+	// The last day of the month or sprint (YYYY-MM-DD)
+	dueOn: string;
+	description: string;
+};
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// The YYYY-MM-DD of a time, in UTC
+function isoDate(time: number): string {
+	return new Date(time).toISOString().slice(0, 10);
+}
+
+// The milestone of a card that is due at `due`, or null if it's due before the first sprint.
+export function getDueMilestone(
+	grouping: MilestoneGrouping,
+	due: string,
+): DueMilestone | null {
+	const time = Date.parse(due);
+	let start: number;
+	let end: number;
+	let n = 1;
+	if (grouping.by === "month") {
+		const date = new Date(time);
+		start = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1);
+		end = Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0);
+	} else {
+		invariant(grouping.sprint_start, "the schema requires `sprint_start`");
+		const first = Date.parse(grouping.sprint_start);
+		const length = grouping.sprint_length * DAY;
+		n = Math.floor((time - first) / length) + 1;
+		if (n < 1) {
+			return null;
+		}
+		start = first + (n - 1) * length;
+		end = start + length - DAY;
+	}
+
+	const startDate = new Date(start);
+	const firstDay = isoDate(start);
+	const lastDay = isoDate(end);
+	const values: Record<string, string> = {
+		year: String(startDate.getUTCFullYear()),
+		month: String(startDate.getUTCMonth() + 1).padStart(2, "0"),
+		n: String(n),
+		start: firstDay,
+		end: lastDay,
+	};
+	const template =
+		grouping.title ??
+		(grouping.by === "month" ? "{year}-{month}" : "Sprint {n}");
+	return {
+		title: template.replace(
+			/\{(\w+)\}/g,
+			(match, key: string) => values[key] ?? match,
+		),
+		dueOn: lastDay,
+		description: `Trello cards due from ${firstDay} to ${lastDay}`,
+	};
+}
@@ -0,0 +1,108 @@
+import * as p from "@clack/prompts";
+import chalk from "chalk";
+
+// "text" draws the prompts UI; "json" writes one JSON event per line to stdout instead,
+// for running in a pipeline or container without a TTY.
+export type OutputFormat = "text" | "json";
+
+let format: OutputFormat = "text";
+// Where JSON events go. Commands that print their result to stdout send them to stderr instead.
+let events: NodeJS.WriteStream = process.stdout;
+
+export function setOutputFormat(
+	value: OutputFormat,
+	eventStream: NodeJS.WriteStream = process.stdout,
+) {
+	format = value;
+	events = eventStream;
+	if (format === "json") {
+		// messages are written as they are, without color codes
+		chalk.level = 0;
+	}
+}
+
+function emit(type: string, data: Record<string, unknown>) {
+	events.write(
+		`${JSON.stringify({ type, time: new Date().toISOString(), ...data })}\n`,
+	);
+}
+
+function logger(
+	level: "info" | "step" | "warn" | "error" | "success" | "message",
+) {
+	return (message: string) => {
+		if (format === "json") {
+			emit("log", { level, message });
+		} else {
+			p.log[level](message);
+		}
+	};
+}
+
+type Spinner = {
+	start(message?: string): void;
+	message(message?: string): void;
+	stop(message?: string): void;
+};
+
+// Stands in for the parts of `@clack/prompts` that only show output.
+export const ui = {
+	log: {
+		info: logger("info"),
+		step: logger("step"),
+		warn: logger("warn"),
+		error: logger("error"),
+		success: logger("success"),
+		message: logger("message"),
+	},
+	note(message?: string, title?: string) {
+		if (format === "json") {
+			emit("note", { title, message });
+		} else {
+			p.note(message, title);
+		}
+	},
+	spinner(options?: Parameters<typeof p.spinner>[0]): Spinner {
+		if (format === "text") {
+			return p.spinner(options);
+		}
+		return {
+			start: (message) => emit("progress", { message }),
+			message: (message) => emit("progress", { message }),
+			stop: (message) => emit("progress", { message, done: true }),
+		};
+	},
+	intro(title: string) {
+		if (format === "text") {
+			p.intro(title);
+		}
+	},
+	outro(message?: string) {
+		if (format === "json") {
+			emit("done", { message });
+		} else {
+			p.outro(message);
+		}
+	},
+	// Like `outro()`, but the command is ending because of an error.
+	failed(message?: string) {
+		if (format === "json") {
+			emit("failed", { message });
+		} else {
+			p.outro(message);
+		}
+	},
+	cancel(message: string) {
+		if (format === "json") {
+			emit("cancelled", { message });
+		} else {
+			p.cancel(message);
+		}
+	},
+	// A structured event, e.g. that an issue was created. Only written in JSON output.
+	event(type: string, data: Record<string, unknown>) {
+		if (format === "json") {
+			emit(type, data);
+		}
+	},
+};
@@ -0,0 +1,282 @@
+import chalk from "chalk";
+import type { FieldValue } from "./github";
+import type { SkipReason } from "./report";
+
+// Everything a single Trello card will become on GitHub.
+export type CardPlan = {
+	trello: {
+		id: string;
+		url: string;
+		list: string;
+	};
+	// An issue that was already created for this card by an earlier, unfinished run
+	issueNumber: number | null;
+	// Whether that issue is updated because the card changed since (see `sync`)
+	update: boolean;
+	// `owner/name` of the repository the issue is created in
+	repo: string;
+	title: string;
+	body: string;
+	labels: string[];
+	assignees: string[];
+	// The number is `null` if the milestone will be created by this run
+	milestone: { number: number | null; title: string } | null;
+	// Why the issue is closed once migrated, or `null` if it stays open
+	stateReason: "completed" | "not_planned" | null;
+	// `null` if the card isn't added to a project, or its list has no status mapping.
+	// The ID is `null` if the status will be created by this run.
+	status: { id: string | null; name: string } | null;
+	// Other project fields to set, such as dates
+	fields: { id: string; name: string; value: FieldValue; display: string }[];
+	// The GitHub user the issue is created as, when they gave a token
+	author: string | null;
+	comments: CommentPlan[];
+	// The card's history, posted after the comments (see `history` in the map file)
+	history: string | null;
+	subIssues: SubIssuePlan[];
+	// Files uploaded to the card that are re-hosted before the issue is created
+	attachments: { id: string; name: string; url: string; fileName: string }[];
+};
+
+export type CommentPlan = {
+	// The ID of the Trello comment
+	trelloId: string;
+	body: string;
+	// The GitHub user it's posted as, when they gave a token (see `[[users]].token`)
+	author: string | null;
+};
+
+// A Trello checklist item that becomes a sub-issue of its card's issue.
+export type SubIssuePlan = {
+	checkItemId: string;
+	title: string;
+	body: string;
+	assignees: string[];
+	// Completed items are closed as completed
+	closed: boolean;
+	fields: CardPlan["fields"];
+};
+
+// An existing project item whose Status will be changed to match its Trello card.
+export type StatusUpdatePlan = {
+	itemId: string;
+	issueNumber: number;
+	title: string;
+	from: string | null;
+	to: { id: string; name: string };
+};
+
+// The issue of a migrated card that was archived or moved to a skipped list since (see `sync`).
+export type IssueClosePlan = {
+	cardId: string;
+	repo: string;
+	issueNumber: number;
+	title: string;
+	// Why the card isn't migrated anymore
+	reason: SkipReason;
+	stateReason: "completed" | "not_planned";
+};
+
+export type MigrationPlan = {
+	board: string;
+	repo: string;
+	project: string | null;
+	labelsToCreate: { name: string; color?: string; repo: string }[];
+	statusesToCreate: { name: string; color: string }[];
+	milestonesToCreate: { title: string; dueOn: string | null; repo: string }[];
+	statusUpdates: StatusUpdatePlan[];
+	issuesToClose: IssueClosePlan[];
+	// The number of cards skipped because an earlier run finished migrating them
+	alreadyMigrated: number;
+	cards: CardPlan[];
+};
+
+export type PlanFormat = "json" | "markdown";
+
+const PREVIEW_LENGTH = 140;
+
+export function previewBody(body: string): string {
+	const flat = body.replace(/\s+/g, " ").trim();
+	if (flat.length <= PREVIEW_LENGTH) {
+		return flat;
+	}
+	return `${flat.slice(0, PREVIEW_LENGTH - 1)}…`;
+}
+
+export function inferPlanFormat(path: string): PlanFormat {
+	return path.toLowerCase().endsWith(".json") ? "json" : "markdown";
+}
+
+export function renderPlan(plan: MigrationPlan, format: PlanFormat): string {
+	return format === "json" ? renderPlanJson(plan) : renderPlanMarkdown(plan);
+}
+
+function renderPlanJson(plan: MigrationPlan): string {
+	const output = {
+		...plan,
+		cards: plan.cards.map(
+			({ body, comments, history, fields, subIssues, ...card }) => ({
+				...card,
+				subIssues: subIssues.map((subIssue) => ({
+					title: subIssue.title,
+					assignees: subIssue.assignees,
+					closed: subIssue.closed,
+				})),
+				fields: Object.fromEntries(fields.map((f) => [f.name, f.display])),
+				bodyPreview: previewBody(body),
+				commentCount: comments.length,
+				history: history !== null,
+			}),
+		),
+	};
+	return `${JSON.stringify(output, null, "\t")}\n`;
+}
+
+// Make a value safe to put inside a Markdown table cell.
+function cell(value: string): string {
+	return value.replace(/\|/g, "\\|").replace(/\s*\n\s*/g, " ");
+}
+
+function renderPlanMarkdown(plan: MigrationPlan): string {
+	const res = [];
+	res.push(`# Migration plan: ${plan.board}`);
+	res.push("");
+	res.push(`- **Repository:** \`${plan.repo}\``);
+	res.push(`- **Project:** ${plan.project ?? "_none_"}`);
+	res.push(`- **Issues to create:** ${plan.cards.length}`);
+	if (plan.alreadyMigrated > 0) {
+		res.push(`- **Already migrated:** ${plan.alreadyMigrated}`);
+	}
+
+	if (plan.labelsToCreate.length > 0) {
+		res.push("");
+		res.push("## Labels to create");
+		res.push("");
+		for (const label of plan.labelsToCreate) {
+			const color = label.color ? ` (\`${label.color}\`)` : "";
+			const repo = label.repo !== plan.repo ? ` in \`${label.repo}\`` : "";
+			res.push(`- ${label.name}${color}${repo}`);
+		}
+	}
+
+	if (plan.statusesToCreate.length > 0) {
+		res.push("");
+		res.push("## Statuses to add to the project");
+		res.push("");
+		for (const status of plan.statusesToCreate) {
+			res.push(`- ${status.name} (${status.color.toLowerCase()})`);
+		}
+	}
+
+	if (plan.milestonesToCreate.length > 0) {
+		res.push("");
+		res.push("## Milestones to create");
+		res.push("");
+		for (const milestone of plan.milestonesToCreate) {
+			const due = milestone.dueOn ? ` (due ${milestone.dueOn})` : "";
+			const repo =
+				milestone.repo !== plan.repo ? ` in \`${milestone.repo}\`` : "";
+			res.push(`- ${milestone.title}${due}${repo}`);
+		}
+	}
+
+	if (plan.statusUpdates.length > 0) {
+		res.push("");
+		res.push("## Status updates for existing items");
+		res.push("");
+		res.push("| Issue | Title | From | To |");
+		res.push("| --- | --- | --- | --- |");
+		for (const update of plan.statusUpdates) {
+			res.push(
+				`| #${update.issueNumber} | ${cell(update.title)} | ${cell(update.from ?? "—")} | ${cell(update.to.name)} |`,
+			);
+		}
+	}
+
+	if (plan.issuesToClose.length > 0) {
+		res.push("");
+		res.push("## Issues to close");
+		res.push("");
+		res.push("| Issue | Title | Card | Closed |");
+		res.push("| --- | --- | --- | --- |");
+		for (const close of plan.issuesToClose) {
+			const repo = close.repo !== plan.repo ? close.repo : "";
+			res.push(
+				`| ${repo}#${close.issueNumber} | ${cell(close.title)} | ${close.reason} | ${close.stateReason.replace("_", " ")} |`,
+			);
+		}
+	}
+
+	res.push("");
+	res.push("## Issues to create");
+	res.push("");
+	res.push(
+		"| # | Card | List | Labels | Assignees | Milestone | Status | Fields | Closed | Comments | Sub-issues |",
+	);
+	res.push(
+		"| --- | --- | --- | --- | --- | --- | --- | --- | --- | --- | --- |",
+	);
+	for (const [i, card] of plan.cards.entries()) {
+		res.push(
+			[
+				"",
+				i + 1,
+				`[${cell(card.title)}](${card.trello.url})${card.repo !== plan.repo ? ` → \`${card.repo}\`` : ""}${card.issueNumber ? ` (${card.update ? "updates" : "resumes"} #${card.issueNumber})` : ""}`,
+				cell(card.trello.list),
+				cell(card.labels.join(", ")),
+				cell(card.assignees.map((a) => `@${a}`).join(", ")),
+				cell(card.milestone?.title ?? ""),
+				cell(card.status?.name ?? ""),
+				cell(card.fields.map((f) => `${f.name}: ${f.display}`).join(", ")),
+				card.stateReason?.replace("_", " ") ?? "",
+				card.comments.length,
+				card.subIssues.length,
+				"",
+			]
+				.join(" | ")
+				.trim(),
+		);
+	}
+
+	res.push("");
+	res.push("## Issue bodies");
+	for (const card of plan.cards) {
+		res.push("");
+		res.push(`### ${card.title}`);
+		res.push("");
+		res.push(`> ${cell(previewBody(card.body))}`);
+	}
+
+	return `${res.join("\n")}\n`;
+}
+
+// A condensed, colored version of the plan for the terminal.
+export function renderPlanSummary(plan: MigrationPlan): string {
+	return plan.cards
+		.map((card) => {
+			const details = [
+				card.update && `${chalk.dim("updates:")} #${card.issueNumber}`,
+				card.repo !== plan.repo && `${chalk.dim("repo:")} ${card.repo}`,
+				`${chalk.dim("list:")} ${card.trello.list}`,
+				card.labels.length > 0 &&
+					`${chalk.dim("labels:")} ${card.labels.join(", ")}`,
+				card.assignees.length > 0 &&
+					`${chalk.dim("assignees:")} ${card.assignees.map((a) => `@${a}`).join(", ")}`,
+				card.milestone && `${chalk.dim("milestone:")} ${card.milestone.title}`,
+				card.status && `${chalk.dim("status:")} ${card.status.name}`,
+				card.stateReason &&
+					`${chalk.dim("closed:")} ${card.stateReason.replace("_", " ")}`,
+				...card.fields.map(
+					(field) => `${chalk.dim(`${field.name}:`)} ${field.display}`,
+				),
+				card.comments.length > 0 &&
+					`${chalk.dim("comments:")} ${card.comments.length}`,
+				card.subIssues.length > 0 &&
+					`${chalk.dim("sub-issues:")} ${card.subIssues.length}`,
+				card.attachments.length > 0 &&
+					`${chalk.dim("attachments to re-host:")} ${card.attachments.length}`,
+			].filter((detail) => typeof detail === "string");
+			return `${chalk.bold(card.title)}\n  ${details.join(chalk.dim(" • "))}\n  ${chalk.dim(previewBody(card.body))}`;
+		})
+		.join("\n");
+}
@@ -0,0 +1,140 @@
+import { describe, expect, test } from "bun:test";
+import {
+	inferReportFormat,
+	type MigrationReport,
+	type ReportCard,
+	renderReport,
+} from "./report";
+
+function reportCard(card: Partial<ReportCard> & { name: string }): ReportCard {
+	const { name, ...rest } = card;
+	return {
+		trello: {
+			id: name,
+			name,
+			url: `https://trello.com/c/${name}`,
+			list: "To Do",
+		},
+		issue: null,
+		projectItemId: null,
+		status: null,
+		listMapped: false,
+		unmappedMembers: [],
+		skippedLabels: [],
+		skipped: null,
+		error: null,
+		...rest,
+	};
+}
+
+const report: MigrationReport = {
+	board: "Roadmap",
+	repo: "octocat/hello-world",
+	project: "Planning",
+	skippedLabels: ["green"],
+	cards: [
+		reportCard({
+			name: "migrated",
+			issue: {
+				number: 1,
+				url: "https://github.com/octocat/hello-world/issues/1",
+			},
+			projectItemId: "PVTI_1",
+			status: "Todo",
+			unmappedMembers: ["bob"],
+		}),
+		reportCard({
+			name: "unsorted",
+			issue: {
+				number: 2,
+				url: "https://github.com/octocat/hello-world/issues/2",
+			},
+		}),
+		reportCard({ name: "failed", error: "Validation Failed" }),
+		reportCard({ name: "archived", skipped: "closed" }),
+	],
+};
+
+describe("inferReportFormat", () => {
+	test("goes by the file extension", () => {
+		expect(inferReportFormat("report.HTML")).toBe("html");
+		expect(inferReportFormat("report.csv")).toBe("csv");
+		expect(inferReportFormat("report.md")).toBe("markdown");
+	});
+});
+
+describe("renderReport", () => {
+	test("lists every card under its heading in Markdown", () => {
+		const markdown = renderReport(report, "markdown");
+		expect(markdown).toContain("- **Migrated cards:** 2");
+		expect(markdown).toContain("- **Failed cards:** 1");
+		expect(markdown).toContain(
+			"| [migrated](https://trello.com/c/migrated) | To Do | [#1](https://github.com/octocat/hello-world/issues/1) | `PVTI_1` | Todo |",
+		);
+		expect(markdown).toContain("_failed: Validation Failed_");
+		expect(markdown).toContain(
+			"| [archived](https://trello.com/c/archived) | To Do | closed |",
+		);
+		expect(markdown).toContain("## Skipped labels\n\n- green");
+		expect(markdown).toContain(
+			"| [migrated](https://trello.com/c/migrated) | bob |",
+		);
+		expect(markdown).toContain(
+			"## Cards without a status mapping\n\n| Card | List |\n| --- | --- |\n| [unsorted](https://trello.com/c/unsorted) | To Do |",
+		);
+	});
+
+	test("doesn't list cards of lists mapped to something else than a status", () => {
+		const markdown = renderReport(
+			{
+				...report,
+				cards: [
+					reportCard({
+						name: "in an iteration",
+						issue: {
+							number: 3,
+							url: "https://github.com/octocat/hello-world/issues/3",
+						},
+						listMapped: true,
+					}),
+				],
+			},
+			"markdown",
+		);
+		expect(markdown).not.toContain("## Cards without a status mapping");
+	});
+
+	test("escapes table cells in Markdown", () => {
+		const markdown = renderReport(
+			{ ...report, cards: [reportCard({ name: "a | b", skipped: "closed" })] },
+			"markdown",
+		);
+		expect(markdown).toContain("[a \\| b]");
+	});
+
+	test("escapes HTML", () => {
+		const html = renderReport(
+			{ ...report, board: "<Roadmap>", cards: [] },
+			"html",
+		);
+		expect(html).toContain("<h1>Migration report: &lt;Roadmap&gt;</h1>");
+	});
+
+	test("writes one CSV row per card, quoting where needed", () => {
+		const csv = renderReport(
+			{
+				...report,
+				cards: [
+					reportCard({ name: 'say "hi", then leave', skipped: "skipped list" }),
+				],
+			},
+			"csv",
+		);
+		const rows = csv.split("\r\n");
+		expect(rows).toHaveLength(3);
+		expect(rows[0]).toStartWith("card,card_url,list,issue");
+		expect(rows[1]).toStartWith('"say ""hi"", then leave",');
+		expect(rows[1]).toContain(",skipped list,");
+		expect(rows[2]).toBe("");
+	});
+});
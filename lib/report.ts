@@ -0,0 +1,317 @@
+// What a finished run did with each Trello card, for signing off a migration.
+
+export type ReportCard = {
+	trello: {
+		id: string;
+		name: string;
+		url: string;
+		list: string;
+	};
+	// `null` if no issue was created for the card
+	issue: { number: number; url: string } | null;
+	projectItemId: string | null;
+	// `null` if the card isn't in a project, or its list has no status mapping
+	status: string | null;
+	// Whether the card's list has a `[[lists]]` entry, which may map it to something else
+	// than a status, like an iteration
+	listMapped: boolean;
+	// Trello members of the card that aren't mapped to a GitHub user, so weren't assigned
+	unmappedMembers: string[];
+	// Labels of the card that aren't transferred
+	skippedLabels: string[];
+	// Why the card was left out of the migration, or `null` if it was migrated
+	skipped: SkipReason | null;
+	// The error of the last attempt, if migrating the card failed
+	error: string | null;
+};
+
+// `closed`: archived, without `--keep-closed`
+// `closed list`: in an archived list, without `--keep-closed-lists`
+// `skipped list`: in a list of `skip.lists`
+export type SkipReason = "closed" | "closed list" | "skipped list";
+
+export type MigrationReport = {
+	board: string;
+	repo: string;
+	project: string | null;
+	// Trello labels that no rule maps, by name (or color, for labels without one)
+	skippedLabels: string[];
+	cards: ReportCard[];
+};
+
+export type ReportFormat = "markdown" | "html" | "csv";
+
+export function inferReportFormat(path: string): ReportFormat {
+	const lower = path.toLowerCase();
+	if (lower.endsWith(".html") || lower.endsWith(".htm")) {
+		return "html";
+	}
+	return lower.endsWith(".csv") ? "csv" : "markdown";
+}
+
+export function renderReport(
+	report: MigrationReport,
+	format: ReportFormat,
+): string {
+	switch (format) {
+		case "html":
+			return renderReportHtml(report);
+		case "csv":
+			return renderReportCsv(report);
+		default:
+			return renderReportMarkdown(report);
+	}
+}
+
+// The cards the report lists under each heading, in board order.
+function groupCards(report: MigrationReport) {
+	return {
+		migrated: report.cards.filter((card) => !card.skipped && card.issue),
+		failed: report.cards.filter((card) => !card.skipped && !card.issue),
+		skipped: report.cards.filter((card) => card.skipped),
+		unmapped: report.cards.filter(
+			(card) => !card.skipped && card.unmappedMembers.length > 0,
+		),
+		withoutStatus: report.project
+			? report.cards.filter(
+					(card) => !card.skipped && !card.status && !card.listMapped,
+				)
+			: [],
+	};
+}
+
+// Make a value safe to put inside a Markdown table cell.
+function cell(value: string): string {
+	return value.replace(/\|/g, "\\|").replace(/\s*\n\s*/g, " ");
+}
+
+function renderReportMarkdown(report: MigrationReport): string {
+	const groups = groupCards(report);
+	const link = (card: ReportCard) =>
+		`[${cell(card.trello.name)}](${card.trello.url})`;
+
+	const res = [];
+	res.push(`# Migration report: ${report.board}`);
+	res.push("");
+	res.push(`- **Repository:** \`${report.repo}\``);
+	res.push(`- **Project:** ${report.project ?? "_none_"}`);
+	res.push(`- **Migrated cards:** ${groups.migrated.length}`);
+	if (groups.failed.length > 0) {
+		res.push(`- **Failed cards:** ${groups.failed.length}`);
+	}
+	res.push(`- **Skipped cards:** ${groups.skipped.length}`);
+
+	res.push("");
+	res.push("## Cards");
+	res.push("");
+	res.push("| Card | List | Issue | Project item | Status |");
+	res.push("| --- | --- | --- | --- | --- |");
+	for (const card of [...groups.migrated, ...groups.failed]) {
+		res.push(
+			`| ${link(card)} | ${cell(card.trello.list)} | ${card.issue ? `[#${card.issue.number}](${card.issue.url})` : `_failed: ${cell(card.error ?? "not created")}_`} | ${card.projectItemId ? `\`${card.projectItemId}\`` : ""} | ${cell(card.status ?? "")} |`,
+		);
+	}
+
+	if (groups.skipped.length > 0) {
+		res.push("");
+		res.push("## Skipped cards");
+		res.push("");
+		res.push("| Card | List | Reason |");
+		res.push("| --- | --- | --- |");
+		for (const card of groups.skipped) {
+			res.push(
+				`| ${link(card)} | ${cell(card.trello.list)} | ${card.skipped} |`,
+			);
+		}
+	}
+
+	if (report.skippedLabels.length > 0) {
+		res.push("");
+		res.push("## Skipped labels");
+		res.push("");
+		for (const label of report.skippedLabels) {
+			res.push(`- ${label}`);
+		}
+	}
+
+	if (groups.unmapped.length > 0) {
+		res.push("");
+		res.push("## Unmapped assignees");
+		res.push("");
+		res.push("| Card | Trello members |");
+		res.push("| --- | --- |");
+		for (const card of groups.unmapped) {
+			res.push(`| ${link(card)} | ${cell(card.unmappedMembers.join(", "))} |`);
+		}
+	}
+
+	if (groups.withoutStatus.length > 0) {
+		res.push("");
+		res.push("## Cards without a status mapping");
+		res.push("");
+		res.push("| Card | List |");
+		res.push("| --- | --- |");
+		for (const card of groups.withoutStatus) {
+			res.push(`| ${link(card)} | ${cell(card.trello.list)} |`);
+		}
+	}
+
+	return `${res.join("\n")}\n`;
+}
+
+function escapeHtml(value: string): string {
+	return value
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;");
+}
+
+function renderReportHtml(report: MigrationReport): string {
+	const groups = groupCards(report);
+	const a = (url: string, text: string) =>
+		`<a href="${escapeHtml(url)}">${escapeHtml(text)}</a>`;
+	const link = (card: ReportCard) => a(card.trello.url, card.trello.name);
+	const table = (headers: string[], rows: string[][]) =>
+		[
+			"<table>",
+			`<tr>${headers.map((header) => `<th>${header}</th>`).join("")}</tr>`,
+			...rows.map(
+				(row) => `<tr>${row.map((c) => `<td>${c}</td>`).join("")}</tr>`,
+			),
+			"</table>",
+		].join("\n");
+
+	const res = [];
+	res.push("<!DOCTYPE html>");
+	res.push('<html lang="en">');
+	res.push('<head><meta charset="utf-8">');
+	res.push(
+		`<title>Migration report: ${escapeHtml(report.board)}</title></head>`,
+	);
+	res.push("<body>");
+	res.push(`<h1>Migration report: ${escapeHtml(report.board)}</h1>`);
+	res.push("<ul>");
+	res.push(
+		`<li><b>Repository:</b> <code>${escapeHtml(report.repo)}</code></li>`,
+	);
+	res.push(
+		`<li><b>Project:</b> ${report.project ? escapeHtml(report.project) : "<i>none</i>"}</li>`,
+	);
+	res.push(`<li><b>Migrated cards:</b> ${groups.migrated.length}</li>`);
+	if (groups.failed.length > 0) {
+		res.push(`<li><b>Failed cards:</b> ${groups.failed.length}</li>`);
+	}
+	res.push(`<li><b>Skipped cards:</b> ${groups.skipped.length}</li>`);
+	res.push("</ul>");
+
+	res.push("<h2>Cards</h2>");
+	res.push(
+		table(
+			["Card", "List", "Issue", "Project item", "Status"],
+			[...groups.migrated, ...groups.failed].map((card) => [
+				link(card),
+				escapeHtml(card.trello.list),
+				card.issue
+					? a(card.issue.url, `#${card.issue.number}`)
+					: `<i>failed: ${escapeHtml(card.error ?? "not created")}</i>`,
+				card.projectItemId
+					? `<code>${escapeHtml(card.projectItemId)}</code>`
+					: "",
+				escapeHtml(card.status ?? ""),
+			]),
+		),
+	);
+
+	if (groups.skipped.length > 0) {
+		res.push("<h2>Skipped cards</h2>");
+		res.push(
+			table(
+				["Card", "List", "Reason"],
+				groups.skipped.map((card) => [
+					link(card),
+					escapeHtml(card.trello.list),
+					card.skipped ?? "",
+				]),
+			),
+		);
+	}
+
+	if (report.skippedLabels.length > 0) {
+		res.push("<h2>Skipped labels</h2>");
+		res.push("<ul>");
+		for (const label of report.skippedLabels) {
+			res.push(`<li>${escapeHtml(label)}</li>`);
+		}
+		res.push("</ul>");
+	}
+
+	if (groups.unmapped.length > 0) {
+		res.push("<h2>Unmapped assignees</h2>");
+		res.push(
+			table(
+				["Card", "Trello members"],
+				groups.unmapped.map((card) => [
+					link(card),
+					escapeHtml(card.unmappedMembers.join(", ")),
+				]),
+			),
+		);
+	}
+
+	if (groups.withoutStatus.length > 0) {
+		res.push("<h2>Cards without a status mapping</h2>");
+		res.push(
+			table(
+				["Card", "List"],
+				groups.withoutStatus.map((card) => [
+					link(card),
+					escapeHtml(card.trello.list),
+				]),
+			),
+		);
+	}
+
+	res.push("</body>");
+	res.push("</html>");
+	return `${res.join("\n")}\n`;
+}
+
+// Quote a CSV field when it has to be (RFC 4180).
+function csvField(value: string | number): string {
+	const text = String(value);
+	return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// One row per card, migrated or not. Skipped labels are listed with the cards that have them.
+function renderReportCsv(report: MigrationReport): string {
+	const rows = [
+		[
+			"card",
+			"card_url",
+			"list",
+			"issue",
+			"issue_url",
+			"project_item",
+			"status",
+			"unmapped_assignees",
+			"skipped_labels",
+			"skipped",
+			"error",
+		],
+		...report.cards.map((card) => [
+			card.trello.name,
+			card.trello.url,
+			card.trello.list,
+			card.issue?.number ?? "",
+			card.issue?.url ?? "",
+			card.projectItemId ?? "",
+			card.status ?? "",
+			card.unmappedMembers.join("; "),
+			card.skippedLabels.join("; "),
+			card.skipped ?? "",
+			card.error ?? "",
+		]),
+	];
+	return `${rows.map((row) => row.map(csvField).join(",")).join("\r\n")}\r\n`;
+}
@@ -0,0 +1,337 @@
+import { existsSync } from "node:fs";
+import chalk from "chalk";
+import { RequestError } from "octokit";
+import z from "zod";
+import {
+	askGithubToken,
+	confirm,
+	fail,
+	intro,
+	listConjunction,
+	setInteractivity,
+} from "./cli";
+import { createOctokit, repoRequest } from "./github";
+import { getLedgerData, type LedgerEntry, saveLedger } from "./ledger";
+import { type OutputFormat, setOutputFormat, ui } from "./output";
+import { runConcurrently } from "./scheduler";
+
+export type RollbackOptions = {
+	githubToken?: string;
+	// the state file of the migration to undo
+	state: string;
+	dryRun?: boolean;
+	concurrency: number;
+	yes?: boolean;
+	nonInteractive?: boolean;
+	format: OutputFormat;
+};
+
+// An issue (or sub-issue) recorded in the state file, with what was posted on it
+type IssueToRollBack = {
+	repo: string;
+	number: number;
+	nodeId: string;
+	comments: number[];
+	// the ledger entry, whose project item is forgotten once it's removed
+	entry: { projectItemId?: string };
+};
+
+// Undo what the migration recorded in a state file: project items, issues, comments, labels
+// and milestones.
+// Issues are deleted where the token has admin access to their repository, and closed and
+// locked everywhere else. Whatever is undone is removed from the state file as it goes, so an
+// interrupted rollback can be run again, and the board migrated again afterwards.
+export async function rollback(opts: RollbackOptions) {
+	setOutputFormat(opts.format);
+	setInteractivity(opts);
+	intro();
+
+	if (!existsSync(opts.state)) {
+		fail(
+			`There is no state file at ${chalk.red(opts.state)}, so nothing can be rolled back.`,
+		);
+	}
+	const getLedger = await getLedgerData(opts.state, "");
+	if (!getLedger.result.success) {
+		ui.log.warn(`Failed to parse state file (${getLedger.source}):`);
+		ui.log.error(z.prettifyError(getLedger.result.error));
+		fail();
+	}
+	const ledger = getLedger.result.data;
+
+	const token = await askGithubToken(opts.githubToken);
+	const octokit = createOctokit(token);
+
+	const cardIds = Object.keys(ledger.cards).filter(
+		(cardId) => ledger.cards[cardId]?.issue,
+	);
+	const issues = cardIds.flatMap((cardId) => {
+		const entry = ledger.cards[cardId];
+		return entry ? getIssues(ledger.repo, entry) : [];
+	});
+
+	// Deleting an issue needs admin access to its repository
+	const canDelete = new Map<string, boolean>();
+	for (const repo of new Set(issues.map((issue) => issue.repo))) {
+		const res = await octokit.request(
+			"GET /repos/{owner}/{repo}",
+			repoRequest(repo),
+		);
+		canDelete.set(repo, res.data.permissions?.admin ?? false);
+	}
+
+	const projectItems = issues.filter(
+		(issue) => issue.entry.projectItemId,
+	).length;
+	const steps = [
+		ledger.project &&
+			projectItems > 0 &&
+			`Remove ${chalk.blue(projectItems)} items from the project`,
+		...[...canDelete].map(([repo, deletable]) => {
+			const inRepo = issues.filter((issue) => issue.repo === repo);
+			if (deletable) {
+				return `Delete ${chalk.blue(inRepo.length)} issues in ${chalk.green(repo)}`;
+			}
+			const comments = inRepo.reduce(
+				(sum, issue) => sum + issue.comments.length,
+				0,
+			);
+			return `Close and lock ${chalk.blue(inRepo.length)} issues in ${chalk.green(repo)}, and delete their ${chalk.blue(comments)} comments ${chalk.dim("(deleting issues needs admin access)")}`;
+		}),
+		ledger.labels.length > 0 &&
+			`Delete ${chalk.blue(ledger.labels.length)} labels: ${listConjunction.format(
+				ledger.labels.map((label) => `${label.name} (${label.repo})`),
+			)}`,
+		ledger.milestones.length > 0 &&
+			`Delete ${chalk.blue(ledger.milestones.length)} milestones: ${listConjunction.format(
+				ledger.milestones.map(
+					(milestone) => `${milestone.title} (${milestone.repo})`,
+				),
+			)}`,
+	].filter((step) => typeof step === "string");
+
+	if (steps.length === 0) {
+		ui.outro(`Nothing to roll back in ${chalk.dim(opts.state)}.`);
+		return;
+	}
+	ui.note(steps.join("\n"), "Rollback:");
+	ui.event("rollback_plan", {
+		issues: issues.length,
+		projectItems,
+		labels: ledger.labels.length,
+		milestones: ledger.milestones.length,
+		dryRun: !!opts.dryRun,
+	});
+
+	if (opts.dryRun) {
+		ui.outro(`Dry run complete. ${chalk.dim("No changes were made.")}`);
+		return;
+	}
+	await confirm("Roll back the migration? Deleted issues can't be restored.");
+
+	async function rollbackIssue(issue: IssueToRollBack) {
+		const { entry } = issue;
+		if (entry.projectItemId && ledger.project) {
+			await ignoreMissing(
+				octokit.graphql(
+					`
+					mutation($projectId: ID!, $itemId: ID!) {
+						deleteProjectV2Item(input: {projectId: $projectId, itemId: $itemId}) {
+							deletedItemId
+						}
+					}`,
+					{ projectId: ledger.project, itemId: entry.projectItemId },
+				),
+			);
+			entry.projectItemId = undefined;
+			saveLedger(opts.state, ledger);
+		}
+
+		// A deleted issue takes its comments with it
+		if (canDelete.get(issue.repo)) {
+			await ignoreMissing(
+				octokit.graphql(
+					`
+					mutation($issueId: ID!) {
+						deleteIssue(input: {issueId: $issueId}) {
+							clientMutationId
+						}
+					}`,
+					{ issueId: issue.nodeId },
+				),
+			);
+			ui.event("issue_deleted", { repo: issue.repo, issue: issue.number });
+			return;
+		}
+
+		for (const commentId of issue.comments) {
+			await ignoreMissing(
+				octokit.request(
+					"DELETE /repos/{owner}/{repo}/issues/comments/{comment_id}",
+					{ ...repoRequest(issue.repo), comment_id: commentId },
+				),
+			);
+		}
+		await ignoreMissing(
+			octokit.request("PATCH /repos/{owner}/{repo}/issues/{issue_number}", {
+				...repoRequest(issue.repo),
+				issue_number: issue.number,
+				state: "closed",
+				state_reason: "not_planned",
+			}),
+		);
+		await ignoreMissing(
+			octokit.request("PUT /repos/{owner}/{repo}/issues/{issue_number}/lock", {
+				...repoRequest(issue.repo),
+				issue_number: issue.number,
+			}),
+		);
+		ui.event("issue_closed", { repo: issue.repo, issue: issue.number });
+	}
+
+	const spin = ui.spinner({ indicator: "timer" });
+	spin.start(`Rolling back ${chalk.blue(cardIds.length)} cards`);
+	let finishedCount = 0;
+	const failures = await runConcurrently(
+		cardIds,
+		opts.concurrency,
+		async (cardId) => {
+			const entry = ledger.cards[cardId];
+			if (!entry?.issue) {
+				return;
+			}
+			// the card's own issue is last, after its sub-issues
+			for (const issue of getIssues(ledger.repo, entry)) {
+				await rollbackIssue(issue);
+			}
+			delete ledger.cards[cardId];
+			saveLedger(opts.state, ledger);
+
+			finishedCount++;
+			spin.message(
+				`Rolling back ${chalk.blue(cardIds.length)} cards • card ${chalk.blue(finishedCount)}/${chalk.blue(cardIds.length)}`,
+			);
+		},
+	);
+
+	// Labels and milestones are deleted last, once the issues that had them are taken care of
+	const labelFailures = await runConcurrently(
+		[...ledger.labels],
+		opts.concurrency,
+		async (label) => {
+			await ignoreMissing(
+				octokit.request("DELETE /repos/{owner}/{repo}/labels/{name}", {
+					...repoRequest(label.repo),
+					name: label.name,
+				}),
+			);
+			ledger.labels = ledger.labels.filter(
+				(l) => l.repo !== label.repo || l.name !== label.name,
+			);
+			saveLedger(opts.state, ledger);
+		},
+	);
+	const milestoneFailures = await runConcurrently(
+		[...ledger.milestones],
+		opts.concurrency,
+		async (milestone) => {
+			await ignoreMissing(
+				octokit.request(
+					"DELETE /repos/{owner}/{repo}/milestones/{milestone_number}",
+					{
+						...repoRequest(milestone.repo),
+						milestone_number: milestone.number,
+					},
+				),
+			);
+			ledger.milestones = ledger.milestones.filter(
+				(m) => m.repo !== milestone.repo || m.number !== milestone.number,
+			);
+			saveLedger(opts.state, ledger);
+		},
+	);
+	if (Object.keys(ledger.cards).length === 0) {
+		ledger.project = undefined;
+		saveLedger(opts.state, ledger);
+	}
+	spin.stop(`Rolled back ${chalk.blue(finishedCount)} cards`);
+
+	for (const { item, error } of failures) {
+		ui.log.error(
+			`Failed to roll back card ${chalk.yellow(item)}: ${error instanceof Error ? error.message : error}`,
+		);
+	}
+	for (const { item, error } of labelFailures) {
+		ui.log.error(
+			`Failed to delete the label ${chalk.yellow(item.name)} in ${item.repo}: ${error instanceof Error ? error.message : error}`,
+		);
+	}
+	for (const { item, error } of milestoneFailures) {
+		ui.log.error(
+			`Failed to delete the milestone ${chalk.yellow(item.title)} in ${item.repo}: ${error instanceof Error ? error.message : error}`,
+		);
+	}
+	const failedCount =
+		failures.length + labelFailures.length + milestoneFailures.length;
+	if (failedCount > 0) {
+		fail(
+			`${chalk.red(failedCount)} steps failed. Re-run the same command to retry them.`,
+		);
+	}
+	ui.outro();
+}
+
+// The issues recorded for a card: its sub-issues, then its own issue
+function getIssues(ledgerRepo: string, entry: LedgerEntry): IssueToRollBack[] {
+	if (!entry.issue) {
+		return [];
+	}
+	const repo = entry.repo ?? ledgerRepo;
+	const subIssues = Object.values(entry.subIssues).flatMap((subEntry) =>
+		subEntry.issue
+			? [
+					{
+						repo,
+						number: subEntry.issue.number,
+						nodeId: subEntry.issue.nodeId,
+						comments: [],
+						entry: subEntry,
+					},
+				]
+			: [],
+	);
+	return [
+		...subIssues,
+		{
+			repo,
+			number: entry.issue.number,
+			nodeId: entry.issue.nodeId,
+			comments:
+				entry.history === undefined
+					? entry.comments
+					: [...entry.comments, entry.history],
+			entry,
+		},
+	];
+}
+
+// Run a request, treating "not found" as done: it was already removed, e.g. by hand
+// or by an earlier, interrupted rollback.
+async function ignoreMissing(request: Promise<unknown>) {
+	try {
+		await request;
+	} catch (error) {
+		if (
+			error instanceof RequestError &&
+			(error.status === 404 || error.status === 410)
+		) {
+			return;
+		}
+		// GraphQL errors come with a type for each error instead of a status
+		const errors = (error as { errors?: { type?: string }[] }).errors;
+		if (errors?.every((e) => e.type === "NOT_FOUND")) {
+			return;
+		}
+		throw error;
+	}
+}
@@ -0,0 +1,47 @@
+import { describe, expect, test } from "bun:test";
+import { runConcurrently } from "./scheduler";
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 1));
+
+describe("runConcurrently", () => {
+	test("runs every item, at most `concurrency` at once", async () => {
+		let running = 0;
+		let mostRunning = 0;
+		const done: number[] = [];
+		const failures = await runConcurrently([1, 2, 3, 4, 5], 2, async (item) => {
+			running++;
+			mostRunning = Math.max(mostRunning, running);
+			await tick();
+			done.push(item);
+			running--;
+		});
+		expect(failures).toEqual([]);
+		expect(done.sort()).toEqual([1, 2, 3, 4, 5]);
+		expect(mostRunning).toBe(2);
+	});
+
+	test("collects failures without stopping the other lanes", async () => {
+		const done: string[] = [];
+		const failures = await runConcurrently(
+			["a", "fail", "b", "c", "fail too"],
+			2,
+			async (item) => {
+				await tick();
+				if (item.startsWith("fail")) {
+					throw new Error(item);
+				}
+				done.push(item);
+			},
+		);
+		expect(done.sort()).toEqual(["a", "b", "c"]);
+		expect(failures.map(({ item }) => item).sort()).toEqual([
+			"fail",
+			"fail too",
+		]);
+		expect(failures.every(({ error }) => error instanceof Error)).toBe(true);
+	});
+
+	test("does nothing without items", async () => {
+		expect(await runConcurrently([], 4, async () => {})).toEqual([]);
+	});
+});
@@ -0,0 +1,29 @@
+// Run `worker` over every item, with at most `concurrency` running at once.
+// Each item's own work stays sequential inside `worker`, so e.g. the comments
+// of one issue are still posted in order.
+//
+// Errors don't stop the other items: the items that failed are returned with their error.
+export async function runConcurrently<T>(
+	items: T[],
+	concurrency: number,
+	worker: (item: T, index: number) => Promise<void>,
+): Promise<{ item: T; error: unknown }[]> {
+	const failures: { item: T; error: unknown }[] = [];
+	let next = 0;
+
+	async function lane() {
+		while (next < items.length) {
+			const index = next++;
+			const item = items[index] as T;
+			try {
+				await worker(item, index);
+			} catch (error) {
+				failures.push({ item, error });
+			}
+		}
+	}
+
+	const lanes = Math.max(1, Math.min(concurrency, items.length));
+	await Promise.all(Array.from({ length: lanes }, lane));
+	return failures;
+}
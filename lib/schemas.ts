@@ -2,6 +2,7 @@ import { z } from "zod/v4";
 
 export type Trello = z.infer<typeof BoardExport>;
 export const BoardExport = z.object({
+	id: z.string(),
 	name: z.string(),
 	// The lists in the board
 	lists: z.array(
@@ -9,6 +10,8 @@ export const BoardExport = z.object({
 			id: z.string(),
 			name: z.string(),
 			closed: z.boolean(),
+			// Where the list is on the board, from left to right
+			pos: z.number(),
 		}),
 	),
 	members: z.array(
@@ -28,11 +31,41 @@ export const BoardExport = z.object({
 					username: z.string(),
 				}),
 				data: z.object({
-					idCard: z.string(),
+					// older actions don't have `idCard`, so use `card.id` instead
+					card: z.object({ id: z.string() }),
 					text: z.string(),
 				}),
 				type: z.literal("commentCard"),
-				date: z.date(),
+				date: z.coerce.date(),
+			}),
+			// changes to a card, shown in its history (see `history` in the map file)
+			z.object({
+				id: z.string(),
+				memberCreator: z.object({
+					id: z.string(),
+					username: z.string(),
+				}),
+				data: z.object({
+					card: z.object({ id: z.string(), closed: z.boolean().optional() }),
+					// the previous values of the fields an `updateCard` changed
+					old: z.object({ closed: z.boolean().optional() }).optional(),
+					// set when a card is created, copied or moved
+					list: z.object({ name: z.string() }).optional(),
+					listBefore: z.object({ name: z.string() }).optional(),
+					listAfter: z.object({ name: z.string() }).optional(),
+					// the card a card was copied from
+					cardSource: z.object({ name: z.string() }).optional(),
+					// the member added to or removed from a card
+					member: z.object({ id: z.string(), name: z.string() }).optional(),
+				}),
+				type: z.enum([
+					"createCard",
+					"copyCard",
+					"updateCard",
+					"addMemberToCard",
+					"removeMemberFromCard",
+				]),
+				date: z.coerce.date(),
 			}),
 			// other objects are stripped
 			z.object({}),
@@ -44,6 +77,8 @@ export const BoardExport = z.object({
 			id: z.string(),
 			name: z.string(),
 			url: z.string(),
+			// The short ID used in card URLs: https://trello.com/c/<shortLink>
+			shortLink: z.string(),
 			// called "archived" in Trello's Web UI
 			closed: z.boolean(),
 			desc: z.string(),
@@ -51,8 +86,19 @@ export const BoardExport = z.object({
 			idChecklists: z.array(z.string()),
 			// The ID of the list it belongs to (see `lists`)
 			idList: z.string(),
+			// Where the card is in its list, from top to bottom
+			pos: z.number(),
 			// The IDs of members assigned to it
 			idMembers: z.array(z.string()),
+			// When work on the card starts and is due (ISO 8601)
+			start: z.iso.datetime().nullable().default(null),
+			due: z.iso.datetime().nullable().default(null),
+			// Whether the due date has been marked as complete
+			dueComplete: z.boolean().default(false),
+			// Minutes before the due date to send a reminder at
+			dueReminder: z.number().nullable().default(null),
+			// When anything on the card last changed (ISO 8601)
+			dateLastActivity: z.iso.datetime().nullable().default(null),
 			labels: z.array(
 				z.object({
 					id: z.string(),
@@ -66,10 +112,55 @@ export const BoardExport = z.object({
 					id: z.string(),
 					name: z.string(),
 					url: z.string(),
+					// Whether the file was uploaded to Trello, rather than being a link
+					isUpload: z.boolean().default(false),
+					mimeType: z.string().nullable().default(null),
+					fileName: z.string().nullable().default(null),
 				}),
 			),
+			// The attachment shown as the card's cover
+			idAttachmentCover: z.string().nullable().default(null),
+			// The values of the board's custom fields (see `customFields`)
+			customFieldItems: z
+				.array(
+					z.object({
+						idCustomField: z.string(),
+						// set for `text`, `number`, `date` and `checkbox` fields
+						value: z
+							.object({
+								text: z.string().optional(),
+								number: z.string().optional(),
+								date: z.string().optional(),
+								checked: z.string().optional(),
+							})
+							.nullable()
+							.default(null),
+						// the ID of the chosen option, for `list` fields
+						idValue: z.string().nullable().default(null),
+					}),
+				)
+				.default([]),
 		}),
 	),
+	// The custom fields defined in the board
+	customFields: z
+		.array(
+			z.object({
+				id: z.string(),
+				name: z.string(),
+				type: z.enum(["text", "number", "date", "list", "checkbox"]),
+				// the choices of a `list` field
+				options: z
+					.array(
+						z.object({
+							id: z.string(),
+							value: z.object({ text: z.string() }),
+						}),
+					)
+					.default([]),
+			}),
+		)
+		.default([]),
 	// The labels in the board
 	labels: z.array(
 		z.object({
@@ -90,96 +181,423 @@ export const BoardExport = z.object({
 					id: z.string(),
 					name: z.string(),
 					state: z.enum(["complete", "incomplete"]),
+					// The member the item is assigned to
+					idMember: z.string().nullable().default(null),
+					due: z.iso.datetime().nullable().default(null),
 				}),
 			),
 		}),
 	),
 });
 
-export type Map = z.infer<typeof MapFormat>;
-export const MapFormat = z.object({
-	// The repository to transfer into
-	repo: z.object({
-		owner: z.union([
-			z.object({
-				type: z.enum(["organization", "user"]),
-				login: z.string().min(1),
-			}),
-			z.string().min(1),
-		]),
-		repo: z.string().min(1),
+// The colors a GitHub Project single select option can have.
+export type FieldColor = z.infer<typeof FieldColor>;
+export const FieldColor = z.enum([
+	"BLUE",
+	"GRAY",
+	"GREEN",
+	"ORANGE",
+	"PINK",
+	"PURPLE",
+	"RED",
+	"YELLOW",
+]);
+
+// A `/regular expression/` with its flags
+const REGEX_PATTERN = /^\/(.+)\/([a-z]*)$/;
+
+// A `trello =` label pattern: a name where `*` matches any text, or a `/regular expression/`.
+export function labelPattern(pattern: string): RegExp {
+	const regex = pattern.match(REGEX_PATTERN);
+	if (regex?.[1]) {
+		return new RegExp(regex[1], regex[2]);
+	}
+	const glob = pattern
+		.replace(/[.+?^${}()|[\]\\]/g, "\\$&")
+		.replace(/\*/g, "(.*)");
+	return new RegExp(`^${glob}$`);
+}
+
+// A `trello =` label pattern that matches exactly `name`, even if it contains `*` or looks
+// like a `/regular expression/`.
+export function exactLabelPattern(name: string): string {
+	if (!name.includes("*") && !REGEX_PATTERN.test(name)) {
+		return name;
+	}
+	return `/^${name.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&")}$/`;
+}
+
+// What a Trello label becomes in GitHub.
+const LabelMapping = z.object({
+	// If a string, assumed to be the name of a label. If an int, it's the ID of the label.
+	// `$1`, `$2`, ... are replaced with what the `trello` pattern matched, and `$&` with the whole name.
+	github: z.union([z.string().min(1), z.int()]),
+	// Whether to create the label, if it does not exist.
+	create: z.boolean().optional().default(false),
+	// The color to create the GitHub label with (defaults to the Trello label's color).
+	color: z
+		.string()
+		.regex(/^#?([0-9a-f]{6}|[0-9a-f]{3})$/i)
+		.optional(),
+});
+
+const LabelRule = LabelMapping.extend({
+	// The name of the label in Trello, or a pattern (see `labelPattern()`).
+	trello: z
+		.string()
+		.min(1)
+		.refine(
+			(pattern) => {
+				try {
+					labelPattern(pattern);
+					return true;
+				} catch {
+					return false;
+				}
+			},
+			{ error: "Invalid regular expression" },
+		)
+		// a global or sticky match has no groups, so `$1`, `$2`, ... would be empty
+		.refine((pattern) => !pattern.match(REGEX_PATTERN)?.[2]?.match(/[gy]/), {
+			error: "The g and y flags can't be used in a label pattern",
+		})
+		.optional(),
+	// The color of the label in Trello, e.g. "green" or "sky_dark". Labels without a name
+	// can only be matched by their color.
+	trello_color: z.string().min(1).optional(),
+})
+	.refine((rule) => rule.trello !== undefined || rule.trello_color, {
+		error: "Either `trello` or `trello_color` is required",
+	})
+	.refine((rule) => !rule.create || typeof rule.github === "string", {
+		error: "Labels can only be created by name",
+		path: ["github"],
+	});
+
+// The repository to transfer into
+const Repo = z.object({
+	owner: z.union([
+		z.object({
+			type: z.enum(["organization", "user"]),
+			login: z.string().min(1),
+		}),
+		z.string().min(1),
+	]),
+	repo: z.string().min(1),
+});
+
+// maps Trello labels to GitHub labels. Either a list of rules (`[[labels]]`), or a table
+// with the rules and a catch-all for labels that no rule matches:
+//   [[labels.rules]] ...
+//   [labels.default] ...
+const Labels = z
+	.union([
+		z.array(LabelRule),
+		z.object({
+			rules: z.array(LabelRule).optional().default([]),
+			// How to map the labels no rule matches; without it, they're not transferred.
+			default: LabelMapping.extend({
+				// Defaults to the name of the Trello label
+				github: z.union([z.string().min(1), z.int()]).default("$&"),
+			}).optional(),
+		}),
+	])
+	.transform((labels) =>
+		// `rulesPath` is where the rules are in the map file, for error messages
+		Array.isArray(labels)
+			? { rules: labels, default: undefined, rulesPath: "labels" }
+			: { ...labels, rulesPath: "labels.rules" },
+	);
+
+// maps assignees
+const Users = z.array(
+	z.object({
+		// The name of the user in Trello.
+		trello: z
+			.string()
+			.min(1)
+			.refine((arg) => arg.replace(/^@/, "")),
+		// The username of the user in GitHub.
+		github: z
+			.string()
+			.min(1)
+			.refine((arg) => arg.replace(/^@/, "")),
+		// (optional) The name of an environment variable holding the user's GitHub token.
+		// Their cards and comments are then posted as them.
+		token: z.string().min(1).optional(),
 	}),
-	// (optional) The ID of the project to add created issues to
-	project: z.int().optional(),
-	labels: z.array(
-		z.discriminatedUnion("create", [
-			// fetch label
-			z.object({
-				// The name of the label in Trello.
-				trello: z.string().min(1),
-				// If a string, assumed to be the name of a label. If an int, it's the ID of the label.
-				github: z.union([z.string().min(1), z.int()]),
-				// Whether to create the label, if it does not exist.
-				create: z.literal(false).optional().default(false),
-			}),
-			// create new label
-			z.object({
-				// The name of the label in Trello.
-				trello: z.string().min(1),
-				// The name of the label to create.
-				github: z.string().min(1),
-				// Whether to create the label, if it does not exist.
-				create: z.literal(true),
-				// The color to create the GitHub label with.
-				color: z
-					.string()
-					.regex(/^#?([0-9a-f]{6}|[0-9a-f]{3})$/i)
-					.optional(),
-			}),
-		]),
-	),
-	// maps assignees
-	users: z
-		.array(
-			z.object({
-				// The name of the user in Trello.
-				trello: z
-					.string()
-					.min(1)
-					.refine((arg) => arg.replace(/^@/, "")),
-				// The username of the user in GitHub.
-				github: z
-					.string()
-					.min(1)
-					.refine((arg) => arg.replace(/^@/, "")),
+);
+
+// maps the Trello List of each card to:
+// 	 a) a GitHub Projects Status (`status =`), or an option of another single select field (`field =`)
+// 	 b) a GitHub Projects iteration (`iteration =`)
+// 	 c) a GitHub Label (`label =`)
+// 	 d) a GitHub Milestone (`milestone =`)
+// 	 e) a closed issue (`close =` / `state_reason =`)
+const Lists = z.array(
+	z
+		.object({
+			list: z.string().min(1),
+			// `lists[].status` is only valid if `.project` is set
+			status: z.union([z.int(), z.string().min(1)]).optional(),
+			// The title or ID of an iteration (requires `.project`)
+			iteration: z.string().min(1).optional(),
+			// The name or ID of the project field `status` or `iteration` is set in, instead of
+			// "Status" or the project's iteration field. Must be a single select or iteration field.
+			field: z.string().min(1).optional(),
+			// Whether to create the status field option and the milestone if they don't exist.
+			// Options of other fields (`field =`) and iterations have to exist.
+			create: z.boolean().optional().default(false),
+			// The color to create the status field option with (defaults to GRAY)
+			color: FieldColor.optional(),
+			// the other two are applicable anywhere
+			label: z.union([z.int(), z.string().min(1)]).optional(),
+			milestone: z.union([z.int(), z.string().min(1)]).optional(),
+			// The due date (YYYY-MM-DD) and description of the milestone, if it's created
+			milestone_due: z.iso.date().optional(),
+			milestone_description: z.string().optional(),
+			// Whether issues from this list are closed (implied by `state_reason`)
+			close: z.boolean().optional().default(false),
+			// Why issues from this list are closed (defaults to "completed")
+			state_reason: z.enum(["completed", "not_planned"]).optional(),
+		})
+		.refine(
+			(mapping) => !mapping.field || !mapping.status !== !mapping.iteration,
+			{
+				error: "`field` can only be used with one of `status` and `iteration`",
+				path: ["field"],
+			},
+		),
+);
+
+// Sends some cards to another repository than `repo`. All the criteria that are set
+// must match; the first route that matches a card decides where its issue is created.
+const Route = z
+	.object({
+		// Cards in this Trello list (by name or ID)
+		list: z.string().min(1).optional(),
+		// Cards with this Trello label (by name or ID)
+		label: z.string().min(1).optional(),
+		repo: Repo,
+	})
+	.refine((route) => route.list || route.label, {
+		error: "Either `list` or `label` is required",
+	});
+
+// A board migrated by a map file with several (`[[boards]]`). `users`, `lists` and `labels`
+// replace the top-level ones for this board; without them, the top-level ones are used.
+const BoardMapping = z
+	.object({
+		// Where to read the board from, like `--trello-export` and `--trello-url`
+		trello_export: z.string().min(1).optional(),
+		trello_url: z.url().optional(),
+		// The repository to transfer into (defaults to the top-level `repo`)
+		repo: Repo.optional(),
+		// (optional) The project to add created issues to (defaults to the top-level `project`)
+		project: z.int().optional(),
+		labels: Labels.optional(),
+		users: Users.optional(),
+		lists: Lists.optional(),
+	})
+	.refine((board) => !board.trello_export !== !board.trello_url, {
+		error: "Set either `trello_export` or `trello_url`",
+	});
+
+// The map of one board: the top-level entries of a map file, or those of a `[[boards]]` entry.
+export type Map = Omit<MapDocument, "repo" | "boards"> & {
+	repo: z.infer<typeof Repo>;
+};
+export type MapDocument = z.infer<typeof MapFormat>;
+export const MapFormat = z
+	.object({
+		// The repository to transfer into (optional when every board in `boards` sets its own)
+		repo: Repo.optional(),
+		// (optional) The ID of the project to add created issues to
+		project: z.int().optional(),
+		// maps Trello labels to GitHub labels (see `Labels`)
+		labels: Labels.optional().prefault([]),
+		// (optional) The names of Project date fields to fill with the dates of each card.
+		// Requires `project` to be set; without it, the dates are written into the issue body.
+		dates: z
+			.object({
+				start: z.string().min(1).optional(),
+				due: z.string().min(1).optional(),
+			})
+			.optional()
+			.default({}),
+		// maps Trello custom fields to GitHub Project fields (requires `project`).
+		// Custom fields that aren't mapped are shown in the issue body instead.
+		fields: z
+			.array(
+				z.object({
+					// The name or ID of the Trello custom field
+					trello: z.string().min(1),
+					// The name or ID of the Project field. Trello text, number and date fields need
+					// a field of the same type; list and checkbox fields need a single select field.
+					github: z.string().min(1),
+				}),
+			)
+			.optional()
+			.default([]),
+		// Where files uploaded to Trello cards end up:
+		//   "link": linked on Trello, where they need a Trello login to be seen
+		//   "branch": committed to a branch of the repo
+		//   "release": uploaded as assets of a release of the repo
+		attachments: z
+			.object({
+				mode: z.enum(["link", "branch", "release"]).optional().default("link"),
+				// The branch to commit the files to, created if it doesn't exist
+				branch: z.string().min(1).optional().default("trello-attachments"),
+				// The tag of the release to upload the files to, created if it doesn't exist
+				release: z.string().min(1).optional().default("trello-attachments"),
+			})
+			.optional()
+			.default({
+				mode: "link",
+				branch: "trello-attachments",
+				release: "trello-attachments",
 			}),
-		)
-		.optional()
-		.default([]),
-	// maps the Trello List of each card to:
-	// 	 a) a GitHub Projects Status (`status =`)
-	// 	 b) a GitHub Label (`label =`)
-	// 	 c) a GitHub Milestone (`milestone =`)
-	lists: z
-		.array(
-			z.object({
-				list: z.string().min(1),
-				// `lists[].status` is only valid if `.project` is set
-				status: z.union([z.int(), z.string().min(1)]).optional(),
-				// Whether to create the status field option if it doesn't exist (only works with status)
+		// (optional) Puts cards into milestones by their due date, instead of by their list.
+		// Cards without a due date keep the milestone of their list.
+		milestones: z
+			.object({
+				// "month": one milestone per calendar month (UTC)
+				// "sprint": one per `sprint_length` days, counted from `sprint_start`
+				by: z.enum(["month", "sprint"]),
+				// The first day of the first sprint (YYYY-MM-DD); cards due before it get none
+				sprint_start: z.iso.date().optional(),
+				sprint_length: z.int().positive().optional().default(14),
+				// The title of each milestone. `{year}` and `{month}` are replaced by the month's,
+				// `{n}` by the sprint's number, and `{start}` and `{end}` by its first and last day.
+				title: z.string().min(1).optional(),
+				// Whether to create the milestones that don't exist yet
 				create: z.boolean().optional().default(false),
-				// the other two are applicable anywhere
-				label: z.union([z.int(), z.string().min(1)]).optional(),
-				milestone: z.union([z.int(), z.string().min(1)]).optional(),
-			}),
-		)
-		.optional()
+			})
+			.refine(
+				(milestones) => milestones.by !== "sprint" || milestones.sprint_start,
+				{
+					error: "`sprint_start` is required to group cards by sprint",
+					path: ["sprint_start"],
+				},
+			)
+			.optional(),
+		// Whether to add a comment with the history of each card (created, moved, archived, ...)
+		history: z.boolean().optional().default(false),
+		// How Trello checklists are migrated:
+		//   "markdown": as a task list in the issue body
+		//   "sub-issues": each item becomes a sub-issue of the card's issue
+		//   "both": both of the above
+		checklists: z
+			.enum(["markdown", "sub-issues", "both"])
+			.optional()
+			.default("markdown"),
+		users: Users.optional().default([]),
+		lists: Lists.optional().default([]),
+		skip: z
+			.object({
+				// Do not migrate a card if it is in any of these lists
+				lists: z.array(z.string().min(1)).optional().default([]),
+			})
+			.optional()
+			.default({ lists: [] }),
+		// (optional) Cards to create in other repositories than `repo`. They're all
+		// still added to `project`, which is why it usually belongs to an organization.
+		routes: z.array(Route).optional().default([]),
+		// (optional) Several boards to migrate in one run, each with its own source and target
+		boards: z.array(BoardMapping).optional().default([]),
+	})
+	.superRefine((map, ctx) => {
+		if (map.boards.length === 0 && !map.repo) {
+			ctx.addIssue({
+				code: "custom",
+				message: "`repo` is required",
+				path: ["repo"],
+			});
+		}
+		for (const [i, board] of map.boards.entries()) {
+			if (!board.repo && !map.repo) {
+				ctx.addIssue({
+					code: "custom",
+					message: "`repo` is required, here or at the top level",
+					path: ["boards", i, "repo"],
+				});
+			}
+		}
+	});
+
+export type Ledger = z.infer<typeof LedgerFormat>;
+export const LedgerFormat = z.object({
+	version: z.literal(1),
+	// `owner/repo` of the repository the issues were created in, unless routed elsewhere
+	repo: z.string(),
+	// The node ID of the project the issues were added to
+	project: z.string().optional(),
+	// The labels this migration created, so `rollback` can delete them again
+	labels: z.array(z.object({ repo: z.string(), name: z.string() })).default([]),
+	// The milestones this migration created, so `rollback` can delete them again
+	milestones: z
+		.array(z.object({ repo: z.string(), number: z.int(), title: z.string() }))
 		.default([]),
-	skip: z
-		.object({
-			// Do not migrate a card if it is in any of these lists
-			lists: z.array(z.string().min(1)).optional().default([]),
-		})
-		.optional()
-		.default({ lists: [] }),
+	// The Trello ID of each re-hosted attachment, mapped to its new URL
+	attachments: z.record(z.string(), z.string()).default({}),
+	// The Trello ID of each card, mapped to what has been created for it so far
+	cards: z.record(
+		z.string(),
+		z.object({
+			issue: z
+				.object({
+					number: z.int(),
+					// The GraphQL node ID, used to add the issue to a project
+					nodeId: z.string(),
+				})
+				.optional(),
+			// The sub-issues created from checklist items, by Trello check item ID
+			subIssues: z
+				.record(
+					z.string(),
+					z.object({
+						issue: z
+							.object({
+								number: z.int(),
+								// The REST ID, used to link it to its parent
+								id: z.int(),
+								nodeId: z.string(),
+							})
+							.optional(),
+						// Whether it has been added as a sub-issue of the card's issue
+						linked: z.boolean().default(false),
+						closed: z.boolean().default(false),
+						projectItemId: z.string().optional(),
+						fields: z.record(z.string(), z.string()).default({}),
+					}),
+				)
+				.default({}),
+			// `owner/repo` of the repository the issue was created in, when it's not `repo`
+			// (see `routes` in the map file)
+			repo: z.string().optional(),
+			// Whether the issue's text links to other cards, and still has to be rewritten
+			// to link to their issues once they're created
+			linksPending: z.boolean().default(false),
+			// The IDs of comments that were posted, in order
+			comments: z.array(z.int()).default([]),
+			// The ID of each posted comment by the ID of its Trello comment, so the new ones
+			// are found even after comments were deleted on Trello
+			trelloComments: z.record(z.string(), z.int()).default({}),
+			// The ID of the comment with the card's history (see `history` in the map file)
+			history: z.int().optional(),
+			// The card's `dateLastActivity` when its issue was last written, so `sync`
+			// only updates the issues of cards that changed since
+			lastActivity: z.string().nullable().optional(),
+			// The ID of the project item for the issue
+			projectItemId: z.string().optional(),
+			// Whether the issue has been closed
+			closed: z.boolean().default(false),
+			// The project item this one was last moved below (null for the top)
+			positionAfter: z.string().nullable().optional(),
+			// The ID of the status option the project item was set to
+			statusId: z.string().optional(),
+			// The other fields of the project item that were set, by field ID
+			fields: z.record(z.string(), z.string()).default({}),
+		}),
+	),
 });
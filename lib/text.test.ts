@@ -0,0 +1,80 @@
+import { describe, expect, test } from "bun:test";
+import { rewriteText, type TextRewrites } from "./text";
+
+const rewrites: TextRewrites = {
+	issueRef: (linkId) =>
+		({ AbCd1234: "#12", EfGh5678: "other/repo#3" })[linkId] ?? null,
+	login: (username) => ({ alice: "alice-gh" })[username.toLowerCase()] ?? null,
+};
+
+describe("rewriteText", () => {
+	test("replaces links to migrated cards with issue references", () => {
+		expect(
+			rewriteText(
+				"See https://trello.com/c/AbCd1234/12-some-title, and https://trello.com/c/EfGh5678.",
+				rewrites,
+			),
+		).toBe("See #12, and other/repo#3.");
+	});
+
+	test("keeps links to cards without an issue", () => {
+		const text = "See https://trello.com/c/Zzzz9999/1-not-migrated";
+		expect(rewriteText(text, rewrites)).toBe(text);
+	});
+
+	test("keeps the label of Markdown links", () => {
+		expect(
+			rewriteText(
+				'[the design](https://trello.com/c/AbCd1234/12-design "smartCard-inline")',
+				rewrites,
+			),
+		).toBe("the design (#12)");
+		expect(
+			rewriteText(
+				"[https://trello.com/c/AbCd1234](https://trello.com/c/AbCd1234)",
+				rewrites,
+			),
+		).toBe("#12");
+	});
+
+	test("maps mentions of mapped members and quotes the others", () => {
+		expect(rewriteText("@Alice and @bob, please look", rewrites)).toBe(
+			"@alice-gh and `@bob`, please look",
+		);
+	});
+
+	test("leaves mentions in fenced code blocks alone", () => {
+		const text = [
+			"@alice wrote:",
+			"```java",
+			"@Override",
+			"public String toString() {}",
+			"```",
+			"~~~css",
+			"@media print {}",
+			"~~~",
+			"thanks @bob",
+		].join("\n");
+		expect(rewriteText(text, rewrites)).toBe(
+			text.replace("@alice", "@alice-gh").replace("@bob", "`@bob`"),
+		);
+	});
+
+	test("leaves mentions in an unclosed code block alone", () => {
+		const text = "@alice\n```\n@Component\nclass A {}";
+		expect(rewriteText(text, rewrites)).toBe(
+			"@alice-gh\n```\n@Component\nclass A {}",
+		);
+	});
+
+	test("leaves mentions in inline code alone", () => {
+		expect(
+			rewriteText("Use `@media` or ``@Component `x` `` with @alice", rewrites),
+		).toBe("Use `@media` or ``@Component `x` `` with @alice-gh");
+	});
+
+	test("leaves email addresses alone", () => {
+		const text = "Mail alice@example.com";
+		expect(rewriteText(text, rewrites)).toBe(text);
+	});
+});
@@ -0,0 +1,55 @@
+// A link to a Trello card by its short link (or ID), e.g. `https://trello.com/c/AbCd1234/12-title`
+export const CARD_LINK =
+	/https?:\/\/trello\.com\/c\/([A-Za-z0-9]+)(?:\/[^\s)\]>"]*[^\s)\]>".,;:!?])?/g;
+// A Markdown link to a Trello card. Trello adds titles like "smartCard-inline" to these.
+const CARD_MARKDOWN_LINK =
+	/\[([^\]]*)\]\(https?:\/\/trello\.com\/c\/([A-Za-z0-9]+)[^\s)]*(?:\s+"[^"]*")?\)/g;
+// An @mention of a Trello member, but not an email address or part of a URL
+const MENTION = /(^|[^\w@`/])@([a-z0-9_]+)\b/gi;
+// A fenced code block (until its closing fence, or the end of the text), or an inline code span
+const CODE =
+	/^(`{3,}|~{3,})[^\n]*\n[\s\S]*?(?:^\1[ \t]*$|$(?![\s\S]))|(`+)(?!`)[\s\S]*?[^`]\2(?!`)/gm;
+
+export type TextRewrites = {
+	// A reference to the issue of the linked card, like `#12`, or null if it has none
+	issueRef: (linkId: string) => string | null;
+	// The GitHub login of the Trello member with this username, or null if there is none
+	login: (username: string) => string | null;
+};
+
+// Apply `replace` to the text around code blocks and code spans, leaving the code as it is.
+function replaceOutsideCode(
+	text: string,
+	replace: (text: string) => string,
+): string {
+	let res = "";
+	let last = 0;
+	for (const match of text.matchAll(CODE)) {
+		res += replace(text.slice(last, match.index)) + match[0];
+		last = match.index + match[0].length;
+	}
+	return res + replace(text.slice(last));
+}
+
+// Point links to migrated cards at their issues, and keep @mentions from notifying
+// whoever has the same username on GitHub. Mentions in code are left alone: they don't
+// notify anyone, and are usually something else, like `@Override`.
+export function rewriteText(text: string, rewrites: TextRewrites): string {
+	const res = text
+		.replace(CARD_MARKDOWN_LINK, (match, label: string, linkId: string) => {
+			const ref = rewrites.issueRef(linkId);
+			if (!ref) {
+				return match;
+			}
+			return !label || label.startsWith("http") ? ref : `${label} (${ref})`;
+		})
+		.replace(CARD_LINK, (match, linkId: string) => {
+			return rewrites.issueRef(linkId) ?? match;
+		});
+	return replaceOutsideCode(res, (part) =>
+		part.replace(MENTION, (_, before: string, username: string) => {
+			const login = rewrites.login(username);
+			return login ? `${before}@${login}` : `${before}\`@${username}\``;
+		}),
+	);
+}
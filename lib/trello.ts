@@ -0,0 +1,218 @@
+import chalk from "chalk";
+import type { TrelloSource } from "./cli";
+import { ui } from "./output";
+import type { SkipReason } from "./report";
+import { BoardExport, type Trello } from "./schemas";
+
+// Read the board from an export file, or from Trello. With credentials, a board URL is
+// read through the REST API instead of the `.json` export, which works for private boards
+// and isn't limited to the most recent actions.
+export async function getTrelloData(
+	trelloSource: TrelloSource,
+	credentials: TrelloCredentials | null = null,
+): Promise<{
+	result: ReturnType<typeof BoardExport.safeParse>;
+	source: string;
+}> {
+	const source = trelloSource.path;
+
+	let trelloVal: unknown;
+	if (trelloSource.type === "url" && credentials) {
+		trelloVal = await getBoardFromApi(getBoardId(source), credentials);
+	} else if (trelloSource.type === "url") {
+		trelloVal = await fetchTrello(source, null);
+	} else {
+		trelloVal = await Bun.file(source).json();
+	}
+
+	return { result: BoardExport.safeParse(trelloVal), source };
+}
+
+async function fetchTrello(
+	url: string,
+	credentials: TrelloCredentials | null,
+): Promise<unknown> {
+	const resp = await fetch(url, { headers: trelloAuthHeaders(credentials) });
+	if (!resp.ok) {
+		ui.note(
+			await resp.body?.text(),
+			`HTTP error fetching Trello source [${chalk.red(resp.status)}]`,
+		);
+		ui.cancel(
+			`Failed to fetch trello source from ${chalk.underline.cyan(url)}.`,
+		);
+		process.exit(1);
+	}
+	return resp.json();
+}
+
+// The ID (or short link) of the board in a URL like `https://trello.com/b/<board-id>/name`
+function getBoardId(url: string): string {
+	const id = URL.parse(url)?.pathname.match(/^\/b\/([A-Za-z0-9]+)/)?.[1];
+	if (!id) {
+		ui.cancel(`${chalk.underline.cyan(url)} is not a link to a Trello board.`);
+		process.exit(1);
+	}
+	return id;
+}
+
+// The most actions Trello returns for one request
+const ACTIONS_PAGE_SIZE = 1000;
+
+// The card actions that are migrated, as comments or in a card's history
+const ACTION_TYPES = [
+	"commentCard",
+	"createCard",
+	"copyCard",
+	"updateCard",
+	"addMemberToCard",
+	"removeMemberFromCard",
+];
+
+// Build the same object as a board export from the REST API.
+async function getBoardFromApi(
+	boardId: string,
+	credentials: TrelloCredentials,
+): Promise<unknown> {
+	const get = (path: string, params: Record<string, string> = {}) =>
+		fetchTrello(
+			`https://api.trello.com/1/boards/${boardId}${path}?${new URLSearchParams(params)}`,
+			credentials,
+		);
+
+	const spin = ui.spinner();
+	spin.start("Reading the board from the Trello API");
+
+	const board = (await get("", { fields: "id,name" })) as {
+		id: string;
+		name: string;
+	};
+	const labels = (await get("/labels", {
+		fields: "name,color,uses",
+		limit: "1000",
+	})) as { id: string }[];
+	const cards = (await get("/cards/all", {
+		fields:
+			"name,url,shortLink,closed,desc,idChecklists,idList,pos,idMembers,idLabels,start,due,dueComplete,dueReminder,dateLastActivity,idAttachmentCover",
+		attachments: "true",
+		attachment_fields: "name,url,isUpload,mimeType,fileName",
+		customFieldItems: "true",
+	})) as { idLabels: string[] }[];
+
+	// Actions come newest first, so each page is read from before the oldest one so far.
+	const actions: { id: string }[] = [];
+	for (;;) {
+		const page = (await get("/actions", {
+			filter: ACTION_TYPES.join(","),
+			limit: String(ACTIONS_PAGE_SIZE),
+			...(actions.length > 0 && { before: actions[actions.length - 1].id }),
+		})) as { id: string }[];
+		actions.push(...page);
+		spin.message(
+			`Reading the board from the Trello API • ${chalk.blue(actions.length)} actions`,
+		);
+		if (page.length < ACTIONS_PAGE_SIZE) {
+			break;
+		}
+	}
+
+	const result = {
+		id: board.id,
+		name: board.name,
+		lists: await get("/lists", { filter: "all", fields: "name,closed,pos" }),
+		members: await get("/members", { fields: "fullName,username" }),
+		labels,
+		// cards only list the IDs of their labels
+		cards: cards.map(({ idLabels, ...card }) => ({
+			...card,
+			labels: labels.filter((label) => idLabels.includes(label.id)),
+		})),
+		checklists: await get("/checklists", {
+			fields: "name,idCard",
+			checkItem_fields: "name,state,idMember,due",
+		}),
+		customFields: await get("/customFields"),
+		actions,
+	};
+	spin.stop(
+		`Read ${chalk.blue(cards.length)} cards and ${chalk.blue(actions.length)} actions from Trello`,
+	);
+	return result;
+}
+
+// The API key and token of a Trello member, needed to read private boards.
+export type TrelloCard = Trello["cards"][number];
+
+// A card that was left out of the migration
+export type SkippedCard = { card: TrelloCard; reason: SkipReason };
+
+// Leave closed (archived) cards and the cards of closed lists out of `trello.cards`, unless
+// asked to keep them. `migrate` and `validate` both do this before resolving the map, so
+// that only the cards that are migrated are checked.
+export function skipClosedCards(
+	trello: Trello,
+	opts: { keepClosed?: boolean; keepClosedLists?: boolean },
+): SkippedCard[] {
+	const skippedCards: SkippedCard[] = [];
+	function skipCards(reason: SkipReason, skip: (card: TrelloCard) => boolean) {
+		trello.cards = trello.cards.filter((card) => {
+			if (skip(card)) {
+				skippedCards.push({ card, reason });
+				return false;
+			}
+			return true;
+		});
+	}
+
+	if (!opts.keepClosed) {
+		skipCards("closed", (card) => card.closed);
+	}
+
+	const closedLists = trello.lists
+		.filter((list) => list.closed)
+		.map((list) => list.id);
+
+	if (!opts.keepClosedLists) {
+		skipCards("closed list", (card) => closedLists.includes(card.idList));
+	}
+	return skippedCards;
+}
+
+export type TrelloCredentials = { key: string; token: string };
+
+export function getTrelloCredentials(opts: {
+	trelloKey?: string;
+	trelloToken?: string;
+}): TrelloCredentials | null {
+	const key = opts.trelloKey ?? Bun.env.TRELLO_KEY;
+	const token = opts.trelloToken ?? Bun.env.TRELLO_TOKEN;
+	return key && token ? { key, token } : null;
+}
+
+function trelloAuthHeaders(
+	credentials: TrelloCredentials | null,
+): Record<string, string> {
+	if (!credentials) {
+		return {};
+	}
+	return {
+		Authorization: `OAuth oauth_consumer_key="${credentials.key}", oauth_token="${credentials.token}"`,
+	};
+}
+
+// Download a file that was uploaded to a Trello card.
+export async function downloadTrelloAttachment(
+	url: string,
+	credentials: TrelloCredentials | null,
+): Promise<{ data: ArrayBuffer; contentType: string }> {
+	const resp = await fetch(url, { headers: trelloAuthHeaders(credentials) });
+	if (!resp.ok) {
+		throw new Error(
+			`Failed to download ${url} [${resp.status}]${credentials ? "" : " (is --trello-key/--trello-token needed?)"}`,
+		);
+	}
+	return {
+		data: await resp.arrayBuffer(),
+		contentType: resp.headers.get("content-type") ?? "application/octet-stream",
+	};
+}
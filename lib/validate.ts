@@ -0,0 +1,128 @@
+import chalk from "chalk";
+import {
+	askGithubToken,
+	askTrelloSource,
+	fail,
+	intro,
+	setInteractivity,
+} from "./cli";
+import { createOctokit } from "./github";
+import {
+	getBoardMaps,
+	getBoardProblems,
+	getMapData,
+	getSchemaProblems,
+	type MapProblem,
+	renderMapProblem,
+	resolveMap,
+} from "./map-file";
+import { setOutputFormat, ui } from "./output";
+import { getTrelloCredentials, getTrelloData, skipClosedCards } from "./trello";
+
+export type ValidateOptions = {
+	githubToken?: string;
+	map: string;
+	format: "text" | "json";
+	trelloExport?: string;
+	trelloUrl?: string;
+	trelloKey?: string;
+	trelloToken?: string;
+	keepClosed?: boolean;
+	keepClosedLists?: boolean;
+	yes?: boolean;
+	nonInteractive?: boolean;
+};
+
+// Check a map file against the Trello board and the GitHub repository, without changing anything.
+export async function validate(opts: ValidateOptions) {
+	const json = opts.format === "json";
+	// In JSON, stdout only gets the result, so that it can be piped; progress goes to stderr
+	setOutputFormat(opts.format, json ? process.stderr : process.stdout);
+	// Nobody can answer a prompt without a terminal
+	setInteractivity({
+		...opts,
+		nonInteractive: opts.nonInteractive || !process.stdin.isTTY,
+	});
+	intro();
+
+	const token = await askGithubToken(opts.githubToken);
+
+	const problems: MapProblem[] = [];
+	let getMap: Awaited<ReturnType<typeof getMapData>> | null = null;
+	try {
+		getMap = await getMapData(opts.map);
+	} catch (e) {
+		problems.push({
+			path: "",
+			message: `${opts.map} is not a valid TOML file: ${e instanceof Error ? e.message : e}`,
+			severity: "error",
+		});
+	}
+
+	if (getMap && !getMap.result.success) {
+		problems.push(...getSchemaProblems(getMap.result.error));
+	} else if (getMap?.result.success) {
+		const octokit = createOctokit(token);
+		for (const board of getBoardMaps(getMap.result.data)) {
+			const source = board.source ?? (await askTrelloSource(opts));
+			const getTrello = await getTrelloData(source, getTrelloCredentials(opts));
+			if (!getTrello.result.success) {
+				if (!board.path) {
+					// without the board, nothing else can be checked
+					fail(`Failed to parse export file (${getTrello.source}).`);
+				}
+				problems.push({
+					path: board.path,
+					message: `Failed to parse export file (${getTrello.source})`,
+					severity: "error",
+				});
+				continue;
+			}
+
+			const trello = getTrello.result.data;
+			// check only the cards that `migrate` would transfer
+			skipClosedCards(trello, opts);
+			ui.log.info(
+				`Checking ${chalk.green(opts.map)}${board.path ? ` (${chalk.dim(board.path)}, ${chalk.bold(trello.name)})` : ""} against Trello and GitHub`,
+			);
+			const resolved = await resolveMap(octokit, trello, board.map);
+			problems.push(...getBoardProblems(board, trello.name, resolved.problems));
+		}
+	}
+
+	const errors = problems.filter((problem) => problem.severity === "error");
+	const warnings = problems.filter((problem) => problem.severity === "warning");
+
+	if (json) {
+		console.log(
+			JSON.stringify(
+				{
+					map: opts.map,
+					valid: errors.length === 0,
+					errors: errors.length,
+					warnings: warnings.length,
+					problems,
+				},
+				null,
+				2,
+			),
+		);
+	} else {
+		for (const problem of problems) {
+			const log = problem.severity === "error" ? ui.log.error : ui.log.warn;
+			log(renderMapProblem(problem));
+		}
+	}
+
+	if (errors.length > 0) {
+		if (json) {
+			process.exit(1);
+		}
+		fail(
+			`${chalk.red(errors.length)} errors and ${chalk.yellow(warnings.length)} warnings in ${chalk.green(opts.map)}.`,
+		);
+	}
+	ui.outro(
+		`${chalk.green(opts.map)} is valid${warnings.length > 0 ? ` (${chalk.yellow(warnings.length)} warnings)` : ""}.`,
+	);
+}